@@ -0,0 +1,90 @@
+/* eslint no-console: off */
+import { pnpPlugin } from "@yarnpkg/esbuild-plugin-pnp";
+import chalk from "chalk";
+import { build } from "esbuild";
+import { performance } from "perf_hooks";
+
+// NOTE the source is bundled in memory so this always measures the current code
+const {
+  outputFiles: [{ text }],
+} = await build({
+  plugins: [pnpPlugin()],
+  entryPoints: ["src/index.ts"],
+  bundle: true,
+  platform: "node",
+  format: "esm",
+  write: false,
+});
+const { treeAdapter } = await import(
+  `data:text/javascript;base64,${Buffer.from(text).toString("base64")}`
+);
+const { parseFragment } = await import("parse5");
+
+const num = 20000;
+const content = "<p>paragraph</p>".repeat(num);
+
+// the original implementations, which scanned an array of the parent's
+// children for the node's position
+function scanNextSibling(siblings, node) {
+  const index = siblings.indexOf(node);
+  return siblings[index + 1] ?? null;
+}
+
+function scanRemoveChild(siblings, node) {
+  const index = siblings.indexOf(node);
+  if (index !== -1) {
+    siblings.splice(index, 1);
+  }
+}
+
+function time(func) {
+  const start = performance.now();
+  func();
+  return performance.now() - start;
+}
+
+function report(name, linked, scanned) {
+  console.log(
+    chalk.white(`\n  ${name}`),
+    chalk.cyan(` ${linked.toFixed(1)}ms`),
+    chalk.white("linked vs"),
+    chalk.cyan(`${scanned.toFixed(1)}ms`),
+    chalk.white("scanned"),
+    chalk.green(`(${Math.round(scanned / linked)}x)`)
+  );
+}
+
+{
+  const parsed = parseFragment(content, { treeAdapter });
+  const siblings = [...parsed.childNodes];
+  const linked = time(() => {
+    for (let node = parsed.firstChild; node; node = node.nextSibling);
+  });
+  const scanned = time(() => {
+    for (let node = siblings[0]; node; node = scanNextSibling(siblings, node));
+  });
+  report("sibling navigation", linked, scanned);
+}
+
+{
+  // readability's pattern of removing nodes and continuing from the sibling
+  const parsed = parseFragment(content, { treeAdapter });
+  const siblings = [...parsed.childNodes];
+  const linked = time(() => {
+    let remove = false;
+    for (let node = parsed.firstChild; node; ) {
+      const next = node.nextSibling;
+      if ((remove = !remove)) parsed.removeChild(node);
+      node = next;
+    }
+  });
+  const scanned = time(() => {
+    let remove = false;
+    for (let node = siblings[0]; node; ) {
+      const next = scanNextSibling(siblings, node);
+      if ((remove = !remove)) scanRemoveChild(siblings, node);
+      node = next;
+    }
+  });
+  report("removal while iterating", linked, scanned);
+}
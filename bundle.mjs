@@ -2,18 +2,35 @@
 import { pnpPlugin } from "@yarnpkg/esbuild-plugin-pnp";
 import chalk from "chalk";
 import { build } from "esbuild";
-import { stat } from "node:fs/promises";
+import { readFile, stat } from "node:fs/promises";
 import { parse } from "node:path";
 import { performance } from "perf_hooks";
 
-const name = "read-tree";
 const config = {
   plugins: [pnpPlugin()],
-  entryPoints: ["src/index.ts"],
   bundle: true,
   minify: true,
 };
 
+// NOTE packages install dependencies alongside, and users install peer
+// dependencies themselves, so only the browser bundles, which have no way to
+// import them, include them
+const { dependencies, peerDependencies } = JSON.parse(
+  await readFile("package.json", "utf8")
+);
+const external = Object.keys({ ...dependencies, ...peerDependencies });
+
+const entries = [
+  { name: "read-tree", entryPoint: "src/index.ts", globalName: "readtree" },
+  {
+    name: "readability",
+    entryPoint: "src/readability.ts",
+    globalName: "readtreeReadability",
+  },
+  // NOTE streams only work in node, so there's no browser bundle
+  { name: "stream", entryPoint: "src/stream.ts", globalName: null },
+];
+
 const start = performance.now();
 
 async function wrapper(options) {
@@ -28,24 +45,36 @@ async function wrapper(options) {
   return res;
 }
 
-await Promise.all([
-  wrapper({
-    ...config,
-    platform: "node",
-    outfile: `bundle/${name}.cjs.min.js`,
-  }),
-  wrapper({
-    ...config,
-    platform: "browser",
-    globalName: "readtree",
-    outfile: `bundle/${name}.iife.min.js`,
-  }),
-  wrapper({
-    ...config,
-    platform: "neutral",
-    outfile: `bundle/${name}.esm.min.js`,
-  }),
-]);
+await Promise.all(
+  entries.flatMap(({ name, entryPoint, globalName }) => [
+    wrapper({
+      ...config,
+      entryPoints: [entryPoint],
+      platform: "node",
+      external,
+      outfile: `bundle/${name}.cjs.min.js`,
+    }),
+    ...(globalName
+      ? [
+          wrapper({
+            ...config,
+            entryPoints: [entryPoint],
+            platform: "browser",
+            globalName,
+            outfile: `bundle/${name}.iife.min.js`,
+          }),
+        ]
+      : []),
+    wrapper({
+      ...config,
+      entryPoints: [entryPoint],
+      platform: globalName ? "neutral" : "node",
+      format: "esm",
+      external,
+      outfile: `bundle/${name}.esm.min.js`,
+    }),
+  ])
+);
 
 const elapsed = Math.round(performance.now() - start);
 console.log("\n⚡", chalk.green(`Done in ${elapsed}ms`));
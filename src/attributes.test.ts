@@ -0,0 +1,141 @@
+import { parseFragment } from "parse5";
+import { treeAdapter } from ".";
+
+describe("attributes", () => {
+  test("#classList", () => {
+    const [div] = parseFragment(`<div class=" a  b a"></div>`, {
+      treeAdapter,
+    }).children;
+    const { classList } = div;
+    expect(div.classList).toBe(classList);
+    expect(classList).toHaveLength(2);
+    expect([...classList]).toEqual(["a", "b"]);
+    expect(classList.item(1)).toBe("b");
+    expect(classList.item(2)).toBeNull();
+    expect(classList.contains("a")).toBe(true);
+    expect(classList.contains("c")).toBe(false);
+    expect(classList.value).toBe(" a  b a");
+    expect(classList.toString()).toBe(" a  b a");
+
+    classList.add("c", "a");
+    expect(div.className).toBe("a b c");
+    classList.remove("a", "d");
+    expect(div.className).toBe("b c");
+
+    // live with the attribute
+    div.className = "x y";
+    expect([...classList]).toEqual(["x", "y"]);
+    classList.value = "z";
+    expect(div.getAttribute("class")).toBe("z");
+  });
+
+  test("#classList.toggle()", () => {
+    const [div] = parseFragment(`<div class="a"></div>`, {
+      treeAdapter,
+    }).children;
+    const { classList } = div;
+    expect(classList.toggle("a")).toBe(false);
+    expect(div.className).toBe("");
+    expect(classList.toggle("a")).toBe(true);
+    expect(classList.toggle("a", true)).toBe(true);
+    expect(classList.toggle("b", false)).toBe(false);
+    expect(div.className).toBe("a");
+    expect(classList.toggle("b", true)).toBe(true);
+    expect(classList.toggle("a", false)).toBe(false);
+    expect(div.className).toBe("b");
+  });
+
+  test("#classList.replace()", () => {
+    const [div] = parseFragment(`<div class="a b c"></div>`, {
+      treeAdapter,
+    }).children;
+    const { classList } = div;
+    expect(classList.replace("d", "e")).toBe(false);
+    expect(div.className).toBe("a b c");
+    expect(classList.replace("b", "d")).toBe(true);
+    expect(div.className).toBe("a d c");
+    expect(classList.replace("c", "a")).toBe(true);
+    expect(div.className).toBe("a d");
+  });
+
+  test("#classList missing attribute", () => {
+    const [div] = parseFragment(`<div></div>`, { treeAdapter }).children;
+    const { classList } = div;
+    expect(classList).toHaveLength(0);
+    expect(classList.value).toBe("");
+    classList.remove("a");
+    expect(div.hasAttribute("class")).toBe(false);
+    classList.add("a");
+    expect(div.outerHTML).toBe(`<div class="a"></div>`);
+    classList.remove("a");
+    expect(div.outerHTML).toBe(`<div class=""></div>`);
+  });
+
+  test("#classList invalid tokens", () => {
+    const [div] = parseFragment(`<div></div>`, { treeAdapter }).children;
+    const { classList } = div;
+    expect(() => classList.add("")).toThrow("the token must not be empty");
+    expect(() => classList.remove("a b")).toThrow(
+      `the token "a b" must not contain whitespace`
+    );
+    expect(() => classList.toggle("")).toThrow(DOMException);
+    expect(() => classList.replace("a", "\t")).toThrow(DOMException);
+    expect(div.hasAttribute("class")).toBe(false);
+  });
+
+  test("#dataset", () => {
+    const [div] = parseFragment(
+      `<div data-id="1" data-user-name="a" data-Upper="b" id="x"></div>`,
+      { treeAdapter }
+    ).children;
+    const { dataset } = div;
+    expect(div.dataset).toBe(dataset);
+    expect(dataset.id).toBe("1");
+    expect(dataset.userName).toBe("a");
+    expect(dataset.upper).toBe("b");
+    expect(dataset.missing).toBeUndefined();
+    expect("userName" in dataset).toBe(true);
+    expect("missing" in dataset).toBe(false);
+    expect(Object.keys(dataset)).toEqual(["id", "userName", "upper"]);
+    expect({ ...dataset }).toEqual({ id: "1", userName: "a", upper: "b" });
+
+    dataset.fooBar = "c";
+    expect(div.getAttribute("data-foo-bar")).toBe("c");
+    dataset.id = "2";
+    expect(div.getAttribute("data-id")).toBe("2");
+    delete dataset.userName;
+    expect(div.hasAttribute("data-user-name")).toBe(false);
+    expect(() => {
+      dataset["foo-bar"] = "d";
+    }).toThrow(`"foo-bar" can't contain a dash followed by a lowercase letter`);
+    dataset["foo-Bar"] = "e";
+    expect(div.getAttribute("data-foo--bar")).toBe("e");
+    expect(Object.keys(dataset)).toEqual(["id", "upper", "fooBar", "foo-Bar"]);
+  });
+
+  test("#dataset symbols & namespaced attributes", () => {
+    const [div] = parseFragment(`<div></div>`, { treeAdapter }).children;
+    div.attributes.push({
+      name: "data-x",
+      namespace: "urn:x",
+      prefix: "x",
+      value: "",
+    });
+    const { dataset } = div;
+    const symbol = Symbol("key");
+    expect(Object.keys(dataset)).toEqual([]);
+    expect((dataset as Record<symbol, unknown>)[symbol]).toBeUndefined();
+    expect(symbol in dataset).toBe(false);
+    expect(Reflect.set(dataset, symbol, "a")).toBe(false);
+    expect(Reflect.deleteProperty(dataset, symbol)).toBe(true);
+    expect(Object.getOwnPropertyDescriptor(dataset, symbol)).toBeUndefined();
+
+    // other properties come from the object
+    expect(String(dataset)).toBe("[object Object]");
+    // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
+    expect(`${dataset}`).toBe("[object Object]");
+    expect(typeof dataset.toString).toBe("function");
+    div.setAttribute("data-to-string", "a");
+    expect(dataset["toString"]).toBe("a");
+  });
+});
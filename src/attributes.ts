@@ -0,0 +1,202 @@
+/**
+ * live views of attributes
+ *
+ * @see {@link https://dom.spec.whatwg.org/#interface-domtokenlist}
+ * @see {@link https://html.spec.whatwg.org/multipage/dom.html#dom-dataset}
+ */
+import { DOMStringMap, DOMTokenList, Element } from ".";
+
+/** throw if token can't be added to a token list */
+function validateToken(token: string): void {
+  if (!token) {
+    throw new DOMException("the token must not be empty", "SyntaxError");
+  } else if (/[\t\n\f\r ]/.test(token)) {
+    throw new DOMException(
+      `the token "${token}" must not contain whitespace`,
+      "InvalidCharacterError"
+    );
+  }
+}
+
+/** a token list backed by an attribute of an element */
+export class TokenList implements DOMTokenList {
+  constructor(
+    private readonly element: Element,
+    private readonly attribute: string
+  ) {}
+
+  /** the unique tokens of the attribute in order */
+  private tokens(): string[] {
+    const value = this.element.getAttribute(this.attribute) ?? "";
+    return [...new Set(value.split(/[\t\n\f\r ]+/).filter((token) => token))];
+  }
+
+  /** write tokens back to the attribute */
+  private update(tokens: readonly string[]): void {
+    // NOTE like the browser, a missing attribute isn't created to be empty
+    if (tokens.length || this.element.hasAttribute(this.attribute)) {
+      this.element.setAttribute(this.attribute, tokens.join(" "));
+    }
+  }
+
+  get length(): number {
+    return this.tokens().length;
+  }
+
+  get value(): string {
+    return this.element.getAttribute(this.attribute) ?? "";
+  }
+
+  set value(val: string) {
+    this.element.setAttribute(this.attribute, val);
+  }
+
+  item(index: number): string | null {
+    return this.tokens()[index] ?? null;
+  }
+
+  contains(token: string): boolean {
+    return this.tokens().includes(token);
+  }
+
+  add(...tokens: string[]): void {
+    tokens.forEach(validateToken);
+    const current = this.tokens();
+    for (const token of tokens) {
+      if (!current.includes(token)) {
+        current.push(token);
+      }
+    }
+    this.update(current);
+  }
+
+  remove(...tokens: string[]): void {
+    tokens.forEach(validateToken);
+    this.update(this.tokens().filter((token) => !tokens.includes(token)));
+  }
+
+  toggle(token: string, force?: boolean): boolean {
+    validateToken(token);
+    const current = this.tokens();
+    if (current.includes(token)) {
+      if (force !== true) {
+        this.update(current.filter((tok) => tok !== token));
+        return false;
+      }
+      return true;
+    } else if (force !== false) {
+      this.update([...current, token]);
+      return true;
+    } else {
+      return false;
+    }
+  }
+
+  replace(token: string, newToken: string): boolean {
+    validateToken(token);
+    validateToken(newToken);
+    const current = this.tokens();
+    if (!current.includes(token)) {
+      return false;
+    }
+    // NOTE the first of the two takes the place of both
+    const replaced: string[] = [];
+    for (const tok of current) {
+      if (tok === token || tok === newToken) {
+        if (!replaced.includes(newToken)) {
+          replaced.push(newToken);
+        }
+      } else {
+        replaced.push(tok);
+      }
+    }
+    this.update(replaced);
+    return true;
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  [Symbol.iterator](): IterableIterator<string> {
+    return this.tokens()[Symbol.iterator]();
+  }
+}
+
+/** the data attribute for a camel case dataset key */
+function dataAttribute(key: string): string {
+  return `data-${key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`;
+}
+
+/** the camel case dataset key for a data attribute, or null if it isn't one */
+function datasetKey(attribute: string): string | null {
+  return attribute.startsWith("data-") && !/[A-Z]/.test(attribute)
+    ? attribute.slice(5).replace(/-([a-z])/g, (_, c: string) => c.toUpperCase())
+    : null;
+}
+
+/** a dataset proxy backed by the data attributes of an element */
+export function createDataset(element: Element): DOMStringMap {
+  return new Proxy<DOMStringMap>(
+    {},
+    {
+      get(target, key, receiver) {
+        const value =
+          typeof key === "string"
+            ? element.getAttribute(dataAttribute(key))
+            : null;
+        // NOTE otherwise fall back to the object, e.g. for toString
+        return value ?? (Reflect.get(target, key, receiver) as unknown);
+      },
+
+      set(_, key, value) {
+        if (typeof key !== "string") {
+          return false;
+        } else if (/-[a-z]/.test(key)) {
+          throw new DOMException(
+            `"${key}" can't contain a dash followed by a lowercase letter`,
+            "SyntaxError"
+          );
+        }
+        element.setAttribute(dataAttribute(key), String(value));
+        return true;
+      },
+
+      has(_, key) {
+        return (
+          typeof key === "string" && element.hasAttribute(dataAttribute(key))
+        );
+      },
+
+      deleteProperty(_, key) {
+        if (typeof key === "string") {
+          element.removeAttribute(dataAttribute(key));
+        }
+        return true;
+      },
+
+      ownKeys() {
+        const keys = [];
+        for (const attr of element.attributes) {
+          const key = attr.namespace ? null : datasetKey(attr.name);
+          if (key !== null) {
+            keys.push(key);
+          }
+        }
+        return keys;
+      },
+
+      getOwnPropertyDescriptor(_, key) {
+        const value =
+          typeof key === "string"
+            ? element.getAttribute(dataAttribute(key))
+            : null;
+        // NOTE properties must be configurable since the target doesn't have
+        // them
+        return value === null
+          ? undefined
+          : { value, writable: true, enumerable: true, configurable: true };
+      },
+    }
+  );
+}
@@ -0,0 +1,153 @@
+import { parse, parseFragment } from "parse5";
+import { createTreeAdapter, HTMLCollection, NodeList, treeAdapter } from ".";
+import { element } from "./testing";
+
+const live = createTreeAdapter({ live: true, parseFragment });
+
+describe("collection", () => {
+  test("#children", () => {
+    const ul = element(
+      `<ul><li id="a">a</li>text<li name="b">b</li></ul>`,
+      live
+    );
+    const children = ul.children as unknown as HTMLCollection;
+    expect(ul.children).toBe(children);
+    expect(children).toHaveLength(2);
+    expect(Array.isArray(children)).toBe(true);
+    const [first, second] = children;
+    expect(children[0]).toBe(first);
+    expect(children.item(1)).toBe(second);
+    expect(children.item(2)).toBeNull();
+    expect(children.namedItem("a")).toBe(first);
+    expect(children.namedItem("b")).toBe(second);
+    expect(children.namedItem("c")).toBeNull();
+    expect(children.namedItem("")).toBeNull();
+
+    ul.append(ul.ownerDocument.createElement("li"));
+    expect(children).toHaveLength(3);
+    first.remove();
+    expect(children[0]).toBe(second);
+    expect(children.map((li) => li.textContent)).toEqual(["b", ""]);
+    second.setAttribute("id", "c");
+    expect(children.namedItem("c")).toBe(second);
+  });
+
+  test("#childNodes", () => {
+    const p = element(`<p>a<b>b</b>c</p>`, live);
+    const nodes = p.childNodes as NodeList;
+    expect(p.childNodes).toBe(nodes);
+    expect(nodes).toHaveLength(3);
+    expect(nodes.item(1)).toBe(p.firstElementChild);
+    expect(nodes.item(3)).toBeNull();
+    p.firstChild?.remove();
+    expect(nodes).toHaveLength(2);
+    expect(nodes[0]).toBe(p.firstElementChild);
+    p.textContent = "";
+    expect(nodes).toHaveLength(0);
+  });
+
+  test("#getElementsByTagName()", () => {
+    const doc = parse(`<p>a</p><div><p>b</p></div>`, { treeAdapter: live });
+    const paras = doc.getElementsByTagName("p");
+    expect(paras).toHaveLength(2);
+    doc.body.append(doc.createElement("p"));
+    expect(paras).toHaveLength(3);
+    doc.body.lastElementChild?.remove();
+    expect(paras).toHaveLength(2);
+
+    const divs = doc.body.getElementsByClassName("x");
+    const named = doc.getElementsByName("y");
+    expect(divs).toHaveLength(0);
+    expect(doc.getElementsByClassName(" ")).toHaveLength(0);
+    const [, div] = doc.body.children;
+    div.className = "x";
+    div.setAttribute("name", "y");
+    expect(divs).toEqual([div]);
+    expect(named).toEqual([div]);
+  });
+
+  test("removing while iterating", () => {
+    const ul = element(
+      `<ul><li>a</li><li>b</li><li>c</li><li>d</li></ul>`,
+      live
+    );
+    const removed = [];
+    // NOTE like the browser, removing shifts the later items back
+    for (const li of ul.children) {
+      removed.push(li.textContent);
+      li.remove();
+    }
+    expect(removed).toEqual(["a", "c"]);
+    expect(ul.children).toHaveLength(2);
+
+    // iterating backwards removes everything
+    const { children } = ul;
+    for (let i = children.length - 1; i >= 0; i--) {
+      children[i].remove();
+    }
+    expect(children).toHaveLength(0);
+
+    // so does always removing the first
+    ul.innerHTML = "<li>a</li><li>b</li>";
+    while (children.length) {
+      children[0].remove();
+    }
+    expect(ul.childNodes).toHaveLength(0);
+  });
+
+  test("replacing while iterating", () => {
+    const doc = parse(`<div>a</div><div>b</div><div>c</div>`, {
+      treeAdapter: live,
+    });
+    const divs = doc.getElementsByTagName("div");
+    // NOTE readability's pattern of renaming elements as it goes
+    for (let i = 0; i < divs.length; ) {
+      const p = doc.createElement("p");
+      p.append(...divs[i].childNodes);
+      divs[i].replaceWith(p);
+    }
+    expect(divs).toHaveLength(0);
+    expect(doc.body.innerHTML).toBe("<p>a</p><p>b</p><p>c</p>");
+  });
+
+  test("appending while iterating", () => {
+    const ul = element(`<ul><li>a</li></ul>`, live);
+    const seen = [];
+    for (const li of ul.children) {
+      seen.push(li.textContent);
+      if (seen.length < 3) {
+        ul.append(ul.ownerDocument.createElement("li"));
+      }
+    }
+    expect(seen).toEqual(["a", "", ""]);
+
+    // snapshots don't change
+    const [snapshot] = parseFragment(`<ul><li>a</li></ul>`, {
+      treeAdapter,
+    }).children;
+    const { children } = snapshot;
+    snapshot.append(snapshot.ownerDocument.createElement("li"));
+    expect(children).toHaveLength(1);
+    expect(snapshot.children).toHaveLength(2);
+  });
+
+  test("read only", () => {
+    const ul = element(`<ul><li>a</li></ul>`, live);
+    const { children } = ul;
+    expect(() => children.push(ul)).toThrow(TypeError);
+    expect(() => {
+      children[0] = ul;
+    }).toThrow(TypeError);
+    expect(() => delete children[0]).toThrow(TypeError);
+    expect(() => Object.defineProperty(children, "x", {})).toThrow(TypeError);
+    expect(children).toHaveLength(1);
+    expect(0 in children).toBe(true);
+    expect(1 in children).toBe(false);
+    expect("item" in children).toBe(true);
+    expect("map" in children).toBe(true);
+    expect(Object.keys(children)).toEqual(["0"]);
+    expect({ ...children }).toEqual({ 0: children[0] });
+    expect(Object.getOwnPropertyDescriptor(children, 1)).toBeUndefined();
+    expect(children.slice()).toEqual([children[0]]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * live collections of nodes
+ *
+ * Collections are read only arrays whose nodes are computed again the first
+ * time they're accessed after any mutation, so iterating over one is cheap as
+ * long as nothing changes in between.
+ *
+ * @see {@link https://dom.spec.whatwg.org/#interface-htmlcollection}
+ * @see {@link https://dom.spec.whatwg.org/#interface-nodelist}
+ */
+import { ChildNode, Element, HTMLCollection, NodeList } from ".";
+import { htmlNamespace } from "./html";
+
+// NOTE a single count is simpler than tracking what each collection depends on
+let generation = 0;
+
+/** note that a tree or attributes changed, so collections need to update */
+export function mutated(): void {
+  generation++;
+}
+
+/** compute, but only again after a mutation */
+function memoize<T>(compute: () => T[]): () => T[] {
+  let nodes: T[] = [];
+  let current = -1;
+  return () => {
+    if (current !== generation) {
+      nodes = compute();
+      current = generation;
+    }
+    return nodes;
+  };
+}
+
+/** if key is an array index */
+function isIndex(key: string | symbol): key is string {
+  return typeof key === "string" && /^(0|[1-9]\d*)$/.test(key);
+}
+
+/** a read only array proxy of nodes with extra methods */
+function createLive<T>(
+  compute: () => T[],
+  methods: (nodes: () => T[]) => Record<string, unknown>
+): readonly T[] {
+  const nodes = memoize(compute);
+  const extra = new Map(Object.entries(methods(nodes)));
+  // NOTE the target is an array so that this is one for Array.isArray
+  return new Proxy<T[]>([], {
+    get(target, key, receiver) {
+      if (key === "length") {
+        return nodes().length;
+      } else if (isIndex(key)) {
+        return nodes()[Number(key)];
+      } else if (typeof key === "string" && extra.has(key)) {
+        return extra.get(key);
+      } else {
+        return Reflect.get(target, key, receiver) as unknown;
+      }
+    },
+
+    has(target, key) {
+      return isIndex(key)
+        ? Number(key) < nodes().length
+        : (typeof key === "string" && extra.has(key)) ||
+            Reflect.has(target, key);
+    },
+
+    ownKeys() {
+      return [...nodes().keys()].map(String).concat("length");
+    },
+
+    getOwnPropertyDescriptor(target, key) {
+      if (key === "length") {
+        // NOTE this must match the non-configurable length of the target
+        return { value: nodes().length, writable: true, configurable: false };
+      } else if (isIndex(key) && Number(key) < nodes().length) {
+        const value = nodes()[Number(key)];
+        return { value, writable: false, enumerable: true, configurable: true };
+      } else {
+        return undefined;
+      }
+    },
+
+    set() {
+      return false;
+    },
+
+    deleteProperty() {
+      return false;
+    },
+
+    defineProperty() {
+      return false;
+    },
+  });
+}
+
+/** a live list of the nodes returned by compute */
+export function createNodeList(compute: () => ChildNode[]): NodeList {
+  return createLive(compute, (nodes) => ({
+    item(index: number): ChildNode | null {
+      return nodes()[index] ?? null;
+    },
+  })) as NodeList;
+}
+
+/** a live collection of the elements returned by compute */
+export function createHTMLCollection(compute: () => Element[]): HTMLCollection {
+  return createLive(compute, (nodes) => ({
+    item(index: number): Element | null {
+      return nodes()[index] ?? null;
+    },
+
+    namedItem(name: string): Element | null {
+      if (!name) {
+        return null;
+      }
+      for (const elem of nodes()) {
+        if (
+          elem.getAttribute("id") === name ||
+          (elem.namespaceURI === htmlNamespace &&
+            elem.getAttribute("name") === name)
+        ) {
+          return elem;
+        }
+      }
+      return null;
+    },
+  })) as HTMLCollection;
+}
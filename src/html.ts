@@ -0,0 +1,14 @@
+/** html elements, which the dom often treats differently from others */
+import { Node, NodeType } from ".";
+
+/** the namespace of html elements */
+export const htmlNamespace = "http://www.w3.org/1999/xhtml";
+
+/** if node is an html element with one of the local names */
+export function isHtml(node: Node | null, ...names: string[]): boolean {
+  return (
+    node?.nodeType === NodeType.Element &&
+    node.namespaceURI === htmlNamespace &&
+    names.includes(node.localName)
+  );
+}
@@ -1,8 +1,18 @@
-import { Readability } from "@mozilla/readability";
+import { isProbablyReaderable, Readability } from "@mozilla/readability";
 import { JSDOM } from "jsdom";
 import { loremIpsum } from "lorem-ipsum";
 import { html, parse, parseFragment } from "parse5";
-import { NodeType, treeAdapter } from ".";
+import {
+  ChildNode,
+  createTreeAdapter,
+  NodeType,
+  ParentNode,
+  serialize,
+  Template,
+  TextNode,
+  treeAdapter,
+} from ".";
+import { isReaderable } from "./readability";
 
 describe("parsing", () => {
   test("#parse()", () => {
@@ -27,7 +37,9 @@ describe("parsing", () => {
     const parsed = parseFragment(content, { treeAdapter });
     expect(parsed.nodeName).toBe("#document-fragment");
     const [p] = parsed.getElementsByTagName("p");
-    expect(() => p?.ownerDocument).toThrow("fragment");
+    expect(p.ownerDocument.nodeType).toBe(NodeType.Document);
+    expect(p.ownerDocument).toBe(parsed.ownerDocument);
+    expect(p.ownerDocument.childNodes).toHaveLength(0);
   });
 
   test("escaping", () => {
@@ -48,6 +60,136 @@ describe("parsing", () => {
     const parsed = parseFragment(content, { treeAdapter });
     const [p] = parsed.getElementsByTagName("p");
     expect(p?.getAttribute("data-test")).toBe("val");
+    expect(p.getAttribute("DATA-Test")).toBe("val");
+    expect(p.hasAttribute("Data-Missing")).toBe(true);
+    expect(p.getAttributeNames()).toEqual(["data-missing", "data-test"]);
+
+    p.setAttribute("Title", "a");
+    p.setAttribute("TITLE", "b");
+    expect(p.getAttributeNames()).toContain("title");
+    expect(p.getAttribute("title")).toBe("b");
+    expect(() => p.setAttribute("a b", "")).toThrow(
+      `"a b" is not a valid attribute name`
+    );
+    expect(() => p.setAttribute("", "")).toThrow(DOMException);
+
+    // foreign elements are case sensitive
+    const [svg] = parseFragment(`<svg viewBox="0 0 1 1"></svg>`, {
+      treeAdapter,
+    }).children;
+    expect(svg.getAttribute("viewBox")).toBe("0 0 1 1");
+    expect(svg.getAttribute("viewBox".toLowerCase())).toBeNull();
+    svg.setAttribute("preserveAspectRatio", "none");
+    expect(svg.getAttributeNames()).toEqual(["viewBox", "preserveAspectRatio"]);
+  });
+
+  test("#toggleAttribute()", () => {
+    const [p] = parseFragment(`<p hidden></p>`, { treeAdapter }).children;
+    expect(p.toggleAttribute("HIDDEN")).toBe(false);
+    expect(p.hasAttribute("hidden")).toBe(false);
+    expect(p.toggleAttribute("Hidden")).toBe(true);
+    expect(p.outerHTML).toBe(`<p hidden=""></p>`);
+    expect(p.toggleAttribute("hidden", true)).toBe(true);
+    expect(p.toggleAttribute("open", false)).toBe(false);
+    expect(p.getAttributeNames()).toEqual(["hidden"]);
+    expect(p.toggleAttribute("hidden", false)).toBe(false);
+    expect(p.attributes).toHaveLength(0);
+    expect(() => p.toggleAttribute("a=b")).toThrow(DOMException);
+  });
+
+  test("namespaced attributes", () => {
+    const [use] = parseFragment(`<svg><use xlink:href="#a" href="#b"/></svg>`, {
+      treeAdapter,
+    }).children[0].children;
+    expect(use.getAttributeNS(html.NS.XLINK, "href")).toBe("#a");
+    expect(use.getAttributeNS(null, "href")).toBe("#b");
+    expect(use.getAttributeNS("", "href")).toBe("#b");
+    expect(use.hasAttributeNS(html.NS.XLINK, "xlink:href")).toBe(false);
+    expect(use.getAttributeNS(html.NS.XML, "href")).toBeNull();
+
+    use.setAttributeNS(html.NS.XLINK, "x:href", "#c");
+    expect(use.getAttribute("xlink:href")).toBe("#c");
+    use.setAttributeNS(html.NS.XML, "xml:lang", "en");
+    use.setAttributeNS("urn:a", "a", "b");
+    use.setAttributeNS(null, "Title", "t");
+    expect(use.getAttributeNames()).toEqual([
+      "xlink:href",
+      "href",
+      "xml:lang",
+      "a",
+      "Title",
+    ]);
+    expect(use.attributes.slice(2)).toEqual([
+      { name: "lang", namespace: html.NS.XML, prefix: "xml", value: "en" },
+      { name: "a", namespace: "urn:a", value: "b" },
+      { name: "Title", value: "t" },
+    ]);
+    expect(use.outerHTML).toBe(
+      `<use xlink:href="#c" href="#b" xml:lang="en" a="b" Title="t"></use>`
+    );
+
+    use.removeAttributeNS(html.NS.XLINK, "href");
+    use.removeAttributeNS(html.NS.XLINK, "href");
+    expect(use.hasAttributeNS(html.NS.XLINK, "href")).toBe(false);
+    expect(use.hasAttributeNS(null, "href")).toBe(true);
+
+    for (const [namespace, name, reason] of [
+      [null, "x:a", `the prefix "x" requires a namespace`],
+      ["urn:a", "xml:a", "the xml prefix requires the xml namespace"],
+      ["urn:a", "xmlns", "only xmlns attributes can have the xmlns namespace"],
+      [
+        html.NS.XMLNS,
+        "a",
+        "only xmlns attributes can have the xmlns namespace",
+      ],
+    ] as const) {
+      expect(() => use.setAttributeNS(namespace, name, "")).toThrow(reason);
+    }
+    use.setAttributeNS(html.NS.XMLNS, "xmlns:x", "urn:x");
+    expect(use.getAttributeNS(html.NS.XMLNS, "x")).toBe("urn:x");
+  });
+
+  test("foreign content", () => {
+    const content = `<p>Chart</p><svg viewBox="0 0 10 10" xmlns:xlink="http://www.w3.org/1999/xlink"><defs><linearGradient id="grad"></linearGradient><clipPath id="clip"></clipPath></defs><foreignObject><p>inside</p></foreignObject><use xlink:href="#grad" xml:lang="en"/></svg><math><mi>x</mi></math>`;
+    const parsed = parseFragment(content, { treeAdapter });
+    const [para, svg, math] = parsed.children;
+    expect(para.tagName).toBe("P");
+    expect(para.localName).toBe("p");
+    expect(svg.tagName).toBe("svg");
+    expect(svg.namespaceURI).toBe(html.NS.SVG);
+    expect(math.nodeName).toBe("math");
+    expect(math.namespaceURI).toBe(html.NS.MATHML);
+
+    const [gradient] = svg.getElementsByTagName("linearGradient");
+    expect(gradient.tagName).toBe("linearGradient");
+    expect(gradient.localName).toBe("linearGradient");
+    const lower = gradient.tagName.toLowerCase();
+    expect(svg.getElementsByTagName(lower)).toHaveLength(0);
+    expect(svg.querySelector("clipPath")?.id).toBe("clip");
+
+    // html inside integration points is html again
+    const [foreign] = svg.getElementsByTagName("foreignObject");
+    expect(foreign.firstElementChild?.tagName).toBe("P");
+    expect(parsed.getElementsByTagName("P")).toHaveLength(2);
+
+    const [use] = svg.getElementsByTagName("use");
+    expect(use.getAttribute("xlink:href")).toBe("#grad");
+    expect(use.getAttribute("href")).toBeNull();
+    expect(use.hasAttribute("xml:lang")).toBe(true);
+    expect(use.attributes).toEqual([
+      {
+        name: "href",
+        namespace: html.NS.XLINK,
+        prefix: "xlink",
+        value: "#grad",
+      },
+      { name: "lang", namespace: html.NS.XML, prefix: "xml", value: "en" },
+    ]);
+    use.setAttribute("xlink:href", "#clip");
+    expect(use.attributes[0].value).toBe("#clip");
+    use.removeAttribute("xml:lang");
+    expect(use.attributes).toHaveLength(1);
+    expect(use.outerHTML).toBe(`<use xlink:href="#clip"></use>`);
   });
 
   test("#removeAttribute()", () => {
@@ -57,6 +199,11 @@ describe("parsing", () => {
     expect(p.hasAttribute("data-test")).toBe(true);
     p?.removeAttribute("data-test");
     expect(p.hasAttribute("data-test")).toBe(false);
+
+    p.setAttribute("data-test", "val");
+    p.removeAttribute("Data-Test");
+    expect(p.attributes).toHaveLength(0);
+    p.removeAttribute("missing");
   });
 
   test("id & class & src & srcset", () => {
@@ -123,13 +270,478 @@ describe("parsing", () => {
     }
     if (!doctype) throw new Error("no doctype");
 
-    parsed.body.appendChild(doctype);
+    // NOTE the dom won't insert doctypes into elements, but the adapter will
+    treeAdapter.appendChild(parsed.body, doctype);
     expect(parsed.body.innerHTML).toBe(`
         <!--comment-->
-        <img src="src"/>
-        <p disabled>This is a really short article</p>
+        <img src="src">
+        <p disabled="">This is a really short article</p>
       
-    <!doctype html>`);
+    <!DOCTYPE html>`);
+  });
+
+  test("#innerHTML =", () => {
+    const adapter = createTreeAdapter({ parseFragment });
+    const parsed = parse(`<p id="old">old</p>`, { treeAdapter: adapter });
+    const { body } = parsed;
+    const [old] = body.children;
+    body.innerHTML = `<h1>Title</h1>text<!--comment--><td>dropped</td>`;
+    expect(old.parentNode).toBeNull();
+    expect(body.childNodes.map((node) => node.nodeName)).toEqual([
+      "H1",
+      "#text",
+      "#comment",
+      "#text",
+    ]);
+    expect(body.childNodes.every((node) => node.parentNode === body)).toBe(
+      true
+    );
+    expect(body.innerHTML).toBe(`<h1>Title</h1>text<!--comment-->dropped`);
+    expect(parsed.getElementsByTagName("h1")).toHaveLength(1);
+
+    // parsed in context
+    const table = parsed.createElement("table");
+    table.innerHTML = "<tr><td>cell</td></tr>";
+    expect(table.innerHTML).toBe("<tbody><tr><td>cell</td></tr></tbody>");
+    const [tbody] = table.children;
+    tbody.innerHTML = "<td>cell</td>";
+    expect(tbody.innerHTML).toBe("<tr><td>cell</td></tr>");
+
+    const [template] = parseFragment("<template><p>a</p></template>", {
+      treeAdapter: adapter,
+    }).children;
+    template.innerHTML = "<b>b</b>";
+    expect(template.childNodes).toHaveLength(0);
+    const { content } = template as Template;
+    expect(content.childNodes).toHaveLength(1);
+    expect(content.firstElementChild?.tagName).toBe("B");
+    const created = adapter.createElement("template", html.NS.HTML, []);
+    created.innerHTML = "<b>b</b>";
+    expect(created.childNodes).toHaveLength(0);
+    expect((created as Template).content.childNodes).toHaveLength(1);
+
+    body.innerHTML = "";
+    expect(body.firstChild).toBeNull();
+
+    // parsing requires a parser
+    const [para] = parseFragment("<p></p>", { treeAdapter }).children;
+    let err: unknown;
+    try {
+      para.innerHTML = "<b>b</b>";
+    } catch (caught) {
+      err = caught;
+    }
+    expect(err).toBeInstanceOf(DOMException);
+    expect((err as DOMException).name).toBe("NotSupportedError");
+    expect(para.childNodes).toHaveLength(0);
+  });
+
+  test("#textContent =", () => {
+    const parsed = parse(`<p>old <b>bold</b></p>`, { treeAdapter });
+    const [para] = parsed.getElementsByTagName("p");
+    para.textContent = "<b>new</b>";
+    expect(para.childNodes).toHaveLength(1);
+    expect(para.firstChild?.nodeType).toBe(NodeType.Text);
+    expect(para.firstChild?.parentNode).toBe(para);
+    expect(para.textContent).toBe("<b>new</b>");
+    expect(parsed.getElementsByTagName("b")).toHaveLength(0);
+    expect(parsed.body.textContent).toBe("<b>new</b>");
+
+    para.textContent = "";
+    expect(para.hasChildNodes()).toBe(false);
+  });
+
+  test("#createElement() & #createElementNS()", () => {
+    const doc = parse("", { treeAdapter });
+    const div = doc.createElement("DiV");
+    expect(div.tagName).toBe("DIV");
+    expect(div.localName).toBe("div");
+    expect(div.namespaceURI).toBe(html.NS.HTML);
+    expect(div.ownerDocument).toBe(doc);
+
+    const gradient = doc.createElementNS(html.NS.SVG, "linearGradient");
+    expect(gradient.tagName).toBe("linearGradient");
+    expect(gradient.namespaceURI).toBe(html.NS.SVG);
+    expect(gradient.ownerDocument).toBe(doc);
+    div.appendChild(gradient);
+    expect(div.innerHTML).toBe("<linearGradient></linearGradient>");
+
+    // html templates have content owned by the document
+    const { content } = doc.createElement("template") as Template;
+    expect(content.nodeType).toBe(NodeType.DocumentFragment);
+    expect(content.ownerDocument).toBe(doc);
+    content.append("text");
+    expect(content.childNodes).toHaveLength(1);
+    const other = doc.createElementNS(html.NS.SVG, "template");
+    expect((other as Partial<Template>).content).toBeUndefined();
+  });
+
+  test("#createTextNode() & #createComment()", () => {
+    const doc = parse("<p></p>", { treeAdapter });
+    const [para] = doc.getElementsByTagName("p");
+    const text = doc.createTextNode("a < b");
+    expect(text.nodeType).toBe(NodeType.Text);
+    expect(text.ownerDocument).toBe(doc);
+    const comment = doc.createComment("note");
+    expect(comment.nodeType).toBe(NodeType.Comment);
+    expect(comment.ownerDocument).toBe(doc);
+    para.appendChild(text);
+    para.appendChild(comment);
+    expect(para.innerHTML).toBe("a &lt; b<!--note-->");
+    expect(para.textContent).toBe("a < b");
+  });
+
+  test("#createDocumentFragment()", () => {
+    const doc = parse("<p></p>", { treeAdapter });
+    const frag = doc.createDocumentFragment();
+    expect(frag.nodeType).toBe(NodeType.DocumentFragment);
+    frag.appendChild(doc.createElement("b"));
+    frag.appendChild(doc.createTextNode("text"));
+    expect(frag.childNodes).toHaveLength(2);
+    expect(frag.querySelector("b")?.parentNode).toBe(frag);
+  });
+
+  test("#importNode()", () => {
+    const doc = parse("<p></p>", { treeAdapter });
+    const source = parseFragment(
+      `<div class="a"><p>text<!--note--></p><template><b>b</b></template></div>`,
+      { treeAdapter }
+    );
+    const [div] = source.children;
+
+    const shallow = doc.importNode(div);
+    expect(shallow.outerHTML).toBe(`<div class="a"></div>`);
+    expect(shallow.ownerDocument).toBe(doc);
+    expect(shallow.parentNode).toBeNull();
+    shallow.setAttribute("class", "b");
+    expect(div.className).toBe("a");
+
+    const deep = doc.importNode(div, true);
+    expect(deep).not.toBe(div);
+    expect(deep.outerHTML).toBe(div.outerHTML);
+    expect(deep.ownerDocument).toBe(doc);
+    expect(deep.firstElementChild?.firstChild?.ownerDocument).toBe(doc);
+    expect(div.parentNode).toBe(source);
+    const [template, copied] = [div, deep].map(
+      (elem) => elem.lastElementChild as Template
+    );
+    expect(copied.content).not.toBe(template.content);
+    expect(copied.content.firstChild).not.toBe(template.content.firstChild);
+
+    const shallowTemplate = doc.importNode(template);
+    expect(shallowTemplate.content.childNodes).toHaveLength(0);
+
+    const frag = doc.importNode(source, true);
+    expect(frag.nodeType).toBe(NodeType.DocumentFragment);
+    expect(frag.children[0].outerHTML).toBe(div.outerHTML);
+
+    const [text] = div.getElementsByTagName("p")[0].childNodes;
+    if (text.nodeType !== NodeType.Text) throw new Error("text");
+    expect(doc.importNode(text).textContent).toBe("text");
+    const doctype = parse("<!doctype html>", { treeAdapter }).firstChild;
+    if (doctype?.nodeType !== NodeType.DocumentType) throw new Error("doctype");
+    expect(doc.importNode(doctype).name).toBe("html");
+  });
+
+  test("#ownerDocument", () => {
+    const content = `<!doctype html><html><head></head><body><p>text<!--note--></p><template><b>b</b></template></body></html>`;
+    const doc = parse(content, {
+      treeAdapter: createTreeAdapter({ parseFragment }),
+    });
+    const [para, template] = doc.body.children;
+    const [text, comment] = para.childNodes;
+    const { content: templateContent } = template as Template;
+    for (const node of [
+      doc.firstChild!,
+      para,
+      text,
+      comment,
+      templateContent,
+      templateContent.firstChild!,
+    ]) {
+      expect(node.ownerDocument).toBe(doc);
+    }
+
+    // created nodes know their document without a parent
+    const created = doc.createElement("div");
+    expect(created.parentNode).toBeNull();
+    expect(created.ownerDocument).toBe(doc);
+    expect(doc.createTextNode("text").ownerDocument).toBe(doc);
+    expect(doc.createComment("note").ownerDocument).toBe(doc);
+    const frag = doc.createDocumentFragment();
+    expect(frag.ownerDocument).toBe(doc);
+    frag.append("text");
+    expect(frag.firstChild?.ownerDocument).toBe(doc);
+
+    // parsed content belongs to the element's document
+    created.innerHTML = "<i>a</i>b";
+    expect(created.firstChild?.ownerDocument).toBe(doc);
+    created.textContent = "text";
+    expect(created.firstChild?.ownerDocument).toBe(doc);
+    para.outerHTML = "<p><i>new</i></p>";
+    expect(doc.body.firstElementChild?.firstChild?.ownerDocument).toBe(doc);
+
+    // standalone fragments have their own document
+    const parsed = parseFragment("<p>one</p>", { treeAdapter });
+    const other = parseFragment("<p>two</p>", { treeAdapter });
+    expect(parsed.ownerDocument).not.toBe(doc);
+    expect(parsed.ownerDocument).not.toBe(other.ownerDocument);
+    expect(parsed.firstChild?.ownerDocument).toBe(parsed.ownerDocument);
+  });
+
+  test("#baseURI", () => {
+    const adapter = createTreeAdapter({ url: "https://example.com/a/b?c#d" });
+    const doc = parse("<p>text</p>", { treeAdapter: adapter });
+    expect(doc.URL).toBe("https://example.com/a/b?c#d");
+    expect(doc.documentURI).toBe(doc.URL);
+    expect(doc.baseURI).toBe(doc.URL);
+    expect(doc.body.firstElementChild?.firstChild?.baseURI).toBe(doc.URL);
+
+    // the first base with an href wins, resolved against the document
+    const base = doc.createElement("base");
+    base.setAttribute("target", "_blank");
+    doc.head.append(base, doc.createElement("base"));
+    expect(doc.baseURI).toBe(doc.URL);
+    base.nextElementSibling?.setAttribute("href", "/root/");
+    expect(doc.baseURI).toBe("https://example.com/root/");
+    base.setAttribute("href", "../e/");
+    expect(doc.baseURI).toBe("https://example.com/e/");
+    expect(doc.createDocumentFragment().baseURI).toBe(doc.baseURI);
+    expect(doc.createComment("").baseURI).toBe(doc.baseURI);
+    base.setAttribute("href", "http://[");
+    expect(doc.baseURI).toBe(doc.URL);
+
+    // only html bases count
+    base.remove();
+    const svg = doc.createElementNS("http://www.w3.org/2000/svg", "base");
+    svg.setAttribute("href", "/svg/");
+    doc.head.prepend(svg);
+    expect(doc.baseURI).toBe("https://example.com/root/");
+
+    // only bases in the head count
+    const body = doc.createElement("base");
+    body.setAttribute("href", "/body/");
+    doc.body.prepend(body);
+    doc.head.replaceChildren();
+    expect(doc.baseURI).toBe(doc.URL);
+    expect(body.href).toBe("https://example.com/body/");
+    const empty = treeAdapter.createDocument();
+    expect(empty.baseURI).toBe("about:blank");
+    empty.append(empty.createElement("html"));
+    expect(empty.baseURI).toBe("about:blank");
+
+    expect(parse("", { treeAdapter }).URL).toBe("about:blank");
+    expect(parseFragment("", { treeAdapter: adapter }).baseURI).toBe(doc.URL);
+    expect(() => createTreeAdapter({ url: "relative" })).toThrow("Invalid URL");
+  });
+
+  test("#adoptNode()", () => {
+    const doc = parse("<p></p>", { treeAdapter });
+    const frag = parseFragment(
+      "<div><p>text</p><template><b>b</b></template></div>",
+      { treeAdapter }
+    );
+    const [div] = frag.children;
+    const [para, template] = div.children;
+
+    // inserting nodes adopts them
+    doc.body.appendChild(para);
+    expect(para.ownerDocument).toBe(doc);
+    expect(para.firstChild?.ownerDocument).toBe(doc);
+    expect(div.ownerDocument).toBe(frag.ownerDocument);
+
+    expect(doc.adoptNode(div)).toBe(div);
+    expect(div.parentNode).toBeNull();
+    expect(frag.childNodes).toHaveLength(0);
+    expect(template.ownerDocument).toBe(doc);
+    const { content } = template as Template;
+    expect(content.ownerDocument).toBe(doc);
+    expect(content.firstChild?.ownerDocument).toBe(doc);
+    expect(doc.adoptNode(div)).toBe(div);
+
+    expect(doc.adoptNode(frag)).toBe(frag);
+    expect(frag.ownerDocument).toBe(doc);
+  });
+
+  test("#getElementById()", () => {
+    const doc = parse(
+      `<div id="a"><p id="b">one</p><p id="b">two</p></div><template><i id="c"></i></template>`,
+      { treeAdapter }
+    );
+    const [div] = doc.body.children;
+    const [first, second] = div.children;
+    expect(doc.getElementById("a")).toBe(div);
+    expect(doc.getElementById("b")).toBe(first);
+    expect(doc.getElementById("c")).toBeNull();
+    expect(doc.getElementById("")).toBeNull();
+
+    // ids follow attribute changes
+    first.removeAttribute("id");
+    expect(doc.getElementById("b")).toBe(second);
+    second.id = "d";
+    expect(doc.getElementById("b")).toBeNull();
+    expect(doc.getElementById("d")).toBe(second);
+    second.toggleAttribute("id");
+    expect(doc.getElementById("d")).toBeNull();
+    second.toggleAttribute("id");
+    expect(doc.getElementById("")).toBeNull();
+    first.setAttributeNS(null, "id", "e");
+    expect(doc.getElementById("e")).toBe(first);
+    first.removeAttributeNS(null, "id");
+    expect(doc.getElementById("e")).toBeNull();
+    treeAdapter.adoptAttributes(first, [{ name: "id", value: "g" }]);
+    expect(doc.getElementById("g")).toBe(first);
+    first.setAttributeNS("urn:x", "x:id", "f");
+    expect(doc.getElementById("f")).toBeNull();
+    expect(doc.getElementById("g")).toBe(first);
+
+    // only elements in the tree are found
+    const created = doc.createElement("span");
+    created.id = "h";
+    expect(doc.getElementById("h")).toBeNull();
+    div.append(created);
+    expect(doc.getElementById("h")).toBe(created);
+    created.remove();
+    expect(doc.getElementById("h")).toBeNull();
+
+    // so removed and created elements aren't kept alive by the index
+    const { ids } = doc as unknown as { ids: Map<string, Set<unknown>> };
+    expect([...ids.keys()].sort()).toEqual(["a", "g"]);
+    const copy = div.cloneNode(true);
+    div.after(copy);
+    expect(ids.get("a")?.size).toBe(2);
+    expect(ids.get("g")?.size).toBe(2);
+    copy.remove();
+    expect(ids.get("a")?.size).toBe(1);
+    expect(ids.get("g")?.size).toBe(1);
+    for (let i = 0; i < 5; i++) {
+      doc.createElement("p").id = `new${i}`;
+    }
+    expect([...ids.keys()].sort()).toEqual(["a", "g"]);
+
+    const frag = doc.createDocumentFragment();
+    frag.append(created, created.cloneNode());
+    expect(frag.getElementById("h")).toBe(created);
+    expect(frag.getElementById("a")).toBeNull();
+
+    // adopted elements move to the other document
+    const other = parse("", { treeAdapter });
+    other.body.append(div);
+    expect(doc.getElementById("a")).toBeNull();
+    expect(other.getElementById("a")).toBe(div);
+    expect(other.getElementById("g")).toBe(first);
+
+    // ids added directly aren't indexed until they're set
+    const direct = other.createElement("b");
+    other.body.append(direct);
+    direct.attributes.push({ name: "id", value: "i" });
+    expect(other.getElementById("i")).toBeNull();
+    direct.setAttribute("class", "j");
+    expect(other.getElementById("i")).toBe(direct);
+  });
+
+  test("#getElementsByClassName() & #getElementsByName()", () => {
+    const doc = parse(
+      `<form><input name="a" class="x y"><input name="b" class="y"><p class=" y\tx "></p><svg><g name="a"></g></svg></form>`,
+      { treeAdapter }
+    );
+    const [form] = doc.body.children;
+    const [a, b, p] = form.children;
+    expect(doc.getElementsByClassName("x")).toEqual([a, p]);
+    expect(doc.getElementsByClassName(" y  x")).toEqual([a, p]);
+    expect(form.getElementsByClassName("y")).toEqual([a, b, p]);
+    expect(doc.getElementsByClassName("z")).toEqual([]);
+    expect(doc.getElementsByClassName(" ")).toEqual([]);
+    expect(doc.getElementsByName("a")).toEqual([a]);
+    expect(form.getElementsByName("b")).toEqual([b]);
+    expect(a.getElementsByName("a")).toEqual([]);
+  });
+
+  test("#cloneNode()", () => {
+    const content = `<!doctype html><html><head></head><body><div class="a" data-x="1"><p>text<!--note--></p><template><b>b</b></template></div></body></html>`;
+    const doc = parse(content, { treeAdapter, sourceCodeLocationInfo: true });
+    const [div] = doc.body.children;
+
+    const shallow = div.cloneNode();
+    expect(shallow.outerHTML).toBe(`<div class="a" data-x="1"></div>`);
+    expect(shallow.parentNode).toBeNull();
+    expect(shallow.ownerDocument).toBe(doc);
+    expect(shallow.sourceCodeLocation).toBeUndefined();
+    expect(shallow.attributes).not.toBe(div.attributes);
+    shallow.setAttribute("class", "b");
+    expect(div.className).toBe("a");
+
+    const deep = div.cloneNode(true);
+    expect(deep.outerHTML).toBe(div.outerHTML);
+    expect(deep.firstChild).not.toBe(div.firstChild);
+    expect(deep.firstChild?.parentNode).toBe(deep);
+    const [template, copied] = [div, deep].map(
+      (elem) => elem.lastElementChild as Template
+    );
+    expect(copied.content).not.toBe(template.content);
+    expect(copied.content.firstChild).not.toBe(template.content.firstChild);
+    expect(copied.innerHTML).toBe("<b>b</b>");
+    expect(template.cloneNode().content.firstChild).toBeNull();
+
+    const located = div.cloneNode(true, { sourceCodeLocation: true });
+    expect(located.sourceCodeLocation).toEqual(div.sourceCodeLocation);
+    expect(located.sourceCodeLocation).not.toBe(div.sourceCodeLocation);
+    expect(located.firstElementChild?.sourceCodeLocation).toEqual(
+      div.firstElementChild?.sourceCodeLocation
+    );
+
+    const docCopy = doc.cloneNode(true);
+    expect(docCopy).not.toBe(doc);
+    expect(docCopy.mode).toBe(doc.mode);
+    expect(serialize(docCopy)).toBe(serialize(doc));
+    expect(docCopy.body.firstChild?.ownerDocument).toBe(docCopy);
+    expect(doc.cloneNode().firstChild).toBeNull();
+
+    const frag = parseFragment("<p>a</p>b", { treeAdapter });
+    expect(serialize(frag.cloneNode(true))).toBe("<p>a</p>b");
+    const [para] = div.getElementsByTagName("p");
+    const [text, comment] = para.childNodes;
+    expect(text.cloneNode()).toEqual(text.cloneNode(true));
+    expect(serialize(comment.cloneNode())).toBe("<!--note-->");
+    const doctype = doc.firstChild?.cloneNode();
+    expect(doctype?.isEqualNode(doc.firstChild)).toBe(true);
+    expect(doctype?.parentNode).toBeNull();
+  });
+
+  test("#isEqualNode()", () => {
+    const [first, second, third, fourth] = parseFragment(
+      `<p class="a" id="b">text<!--c--></p><p id="b" class="a">text<!--c--></p><p class="a" id="b">text<!--d--></p><p class="a" id="b">text</p>`,
+      { treeAdapter }
+    ).children;
+    expect(first.isEqualNode(first)).toBe(true);
+    expect(first.isEqualNode(second)).toBe(true);
+    expect(first.isEqualNode(first.cloneNode(true))).toBe(true);
+    expect(first.isEqualNode(first.cloneNode())).toBe(false);
+    expect(first.isEqualNode(third)).toBe(false);
+    expect(first.isEqualNode(fourth)).toBe(false);
+    expect(first.isEqualNode(null)).toBe(false);
+    expect(first.isEqualNode(first.firstChild)).toBe(false);
+
+    const copy = first.cloneNode(true);
+    copy.setAttribute("class", "b");
+    expect(first.isEqualNode(copy)).toBe(false);
+    copy.setAttribute("class", "a");
+    copy.setAttribute("title", "a");
+    expect(first.isEqualNode(copy)).toBe(false);
+
+    const [text] = first.childNodes;
+    expect(text.isEqualNode(second.firstChild)).toBe(true);
+    expect(text.isEqualNode(null)).toBe(false);
+
+    const doc = parse(
+      `<!DOCTYPE html PUBLIC "-//W3C//DTD HTML 4.01//EN"><p>a</p>`,
+      { treeAdapter }
+    );
+    expect(doc.isEqualNode(doc.cloneNode(true))).toBe(true);
+    expect(
+      doc.isEqualNode(parse(`<!DOCTYPE html><p>a</p>`, { treeAdapter }))
+    ).toBe(false);
+    expect(doc.isEqualNode(null)).toBe(false);
   });
 
   test("#firstChild()", () => {
@@ -167,6 +779,282 @@ describe("parsing", () => {
     expect(p.childNodes).toHaveLength(2);
   });
 
+  test("#removeChild()", () => {
+    const content = `<p>one</p><p>two</p>`;
+    const parsed = parseFragment(content, { treeAdapter });
+    const [first, second] = parsed.children;
+    first.removeChild(second);
+    expect(second.parentNode).toBe(parsed);
+    expect(parsed.childNodes).toEqual([first, second]);
+    parsed.removeChild(first);
+    expect(first.parentNode).toBeNull();
+    expect(parsed.childNodes).toEqual([second]);
+  });
+
+  test("#insertBefore()", () => {
+    const parsed = parseFragment(`<a></a><b></b>`, { treeAdapter });
+    const [a, b] = parsed.children;
+    const i = treeAdapter.createElement("i", html.NS.HTML, []);
+    parsed.insertBefore(i, b);
+    expect(parsed.children).toEqual([a, i, b]);
+    parsed.insertBefore(b, a);
+    expect(parsed.children).toEqual([b, a, i]);
+    parsed.insertBefore(b, b);
+    expect(parsed.children).toEqual([b, a, i]);
+    parsed.insertBefore(a, null);
+    expect(parsed.children).toEqual([b, i, a]);
+
+    const frag = parseFragment(`<p>one</p>two`, { treeAdapter });
+    const [p] = frag.children;
+    parsed.insertBefore(frag, i);
+    expect(frag.childNodes).toHaveLength(0);
+    expect(serialize(parsed)).toBe("<b></b><p>one</p>two<i></i><a></a>");
+    expect(p.parentNode).toBe(parsed);
+
+    // nodes that aren't children append
+    const detached = treeAdapter.createElement("img", html.NS.HTML, []);
+    parsed.insertBefore(detached, detached);
+    expect(parsed.lastChild).toBe(detached);
+  });
+
+  test("#prepend() & #append()", () => {
+    const parsed = parseFragment(`<a></a>`, { treeAdapter });
+    const [a] = parsed.children;
+    const b = treeAdapter.createElement("b", html.NS.HTML, []);
+    const i = treeAdapter.createElement("i", html.NS.HTML, []);
+    parsed.append(b, "text", i);
+    parsed.prepend("start");
+    expect(serialize(parsed)).toBe("start<a></a><b></b>text<i></i>");
+    parsed.prepend(i, a);
+    expect(serialize(parsed)).toBe("<i></i><a></a>start<b></b>text");
+    expect(parsed.children.every((elem) => elem.parentNode === parsed)).toBe(
+      true
+    );
+    parsed.append();
+    expect(parsed.childNodes).toHaveLength(5);
+  });
+
+  test("#replaceChildren()", () => {
+    const parsed = parseFragment(`<a></a><b></b>`, { treeAdapter });
+    const [a, b] = parsed.children;
+    parsed.replaceChildren(b, "text");
+    expect(serialize(parsed)).toBe("<b></b>text");
+    expect(a.parentNode).toBeNull();
+    parsed.replaceChildren();
+    expect(parsed.childNodes).toHaveLength(0);
+    expect(b.parentNode).toBeNull();
+
+    const doc = parse("<p></p>", { treeAdapter });
+    expect(() => doc.replaceChildren("text")).toThrow(
+      "documents can't have text as children"
+    );
+    expect(doc.childNodes).toHaveLength(1);
+  });
+
+  test("#remove()", () => {
+    const parsed = parseFragment(`<a></a><b></b>`, { treeAdapter });
+    const [a, b] = parsed.children;
+    a.remove();
+    expect(a.parentNode).toBeNull();
+    expect(parsed.childNodes).toEqual([b]);
+    a.remove();
+    expect(parsed.childNodes).toEqual([b]);
+
+    const doc = parse("<p></p>", { treeAdapter });
+    const created = doc.createElement("p");
+    created.remove();
+    expect(created.parentNode).toBeNull();
+    expect(doc.childNodes).toHaveLength(1);
+  });
+
+  test("#before() & #after()", () => {
+    const parsed = parseFragment(`<a></a><b></b><i></i>`, { treeAdapter });
+    const [a, b, i] = parsed.children;
+    b.before("one");
+    b.after("two");
+    expect(serialize(parsed)).toBe("<a></a>one<b></b>two<i></i>");
+    b.before(a, b, i);
+    expect(serialize(parsed)).toBe("one<a></a><b></b><i></i>two");
+    b.after(a, b, i);
+    expect(serialize(parsed)).toBe("one<a></a><b></b><i></i>two");
+    a.before(i);
+    a.after(i, b);
+    expect(serialize(parsed)).toBe("one<a></a><i></i><b></b>two");
+    a.after(i);
+    expect(serialize(parsed)).toBe("one<a></a><i></i><b></b>two");
+    b.before(i, "three");
+    expect(serialize(parsed)).toBe("one<a></a><i></i>three<b></b>two");
+
+    // detached nodes are unaffected
+    const detached = treeAdapter.createElement("p", html.NS.HTML, []);
+    detached.before("text");
+    detached.after(a);
+    expect(a.parentNode).toBe(parsed);
+  });
+
+  test("#replaceWith()", () => {
+    const parsed = parseFragment(`<a></a><b></b><i></i>`, { treeAdapter });
+    const [a, b, i] = parsed.children;
+    b.replaceWith("one", "two");
+    expect(b.parentNode).toBeNull();
+    expect(serialize(parsed)).toBe("<a></a>onetwo<i></i>");
+    a.replaceWith(a);
+    expect(serialize(parsed)).toBe("<a></a>onetwo<i></i>");
+    a.replaceWith(b, a);
+    expect(serialize(parsed)).toBe("<b></b><a></a>onetwo<i></i>");
+    i.replaceWith(a, i);
+    expect(serialize(parsed)).toBe("<b></b>onetwo<a></a><i></i>");
+    b.replaceWith(i);
+    expect(serialize(parsed)).toBe("<i></i>onetwo<a></a>");
+    i.replaceWith(b, i.nextSibling!);
+    expect(serialize(parsed)).toBe("<b></b>onetwo<a></a>");
+    parsed.replaceChild(b.nextSibling!, b);
+    expect(serialize(parsed)).toBe("onetwo<a></a>");
+
+    const detached = treeAdapter.createElement("p", html.NS.HTML, []);
+    detached.replaceWith(a);
+    expect(a.parentNode).toBe(parsed);
+  });
+
+  test("hierarchy errors", () => {
+    const parsed = parseFragment(`<div><p><b></b></p></div>`, { treeAdapter });
+    const [div] = parsed.children;
+    const [p] = div.children;
+    const [b] = p.children;
+    for (const act of [
+      () => b.appendChild(div),
+      () => p.appendChild(p),
+      () => p.insertBefore(div, b),
+      () => p.replaceChild(div, b),
+      () => b.append(p),
+      () => b.before(div),
+      () => b.replaceWith(p),
+    ]) {
+      expect(act).toThrow(DOMException);
+      expect(act).toThrow("the new child contains the parent");
+    }
+    expect(serialize(parsed)).toBe("<div><p><b></b></p></div>");
+
+    const doc = parse("<!doctype html><p></p>", {
+      treeAdapter,
+    });
+    const [doctype, root] = doc.childNodes;
+    if (doctype.nodeType !== NodeType.DocumentType) throw new Error("doctype");
+    expect(() => div.appendChild(doctype)).toThrow(
+      "only documents can have doctypes as children"
+    );
+    expect(() => doc.appendChild(doc.createTextNode("text"))).toThrow(
+      "documents can't have text as children"
+    );
+    expect(() => doc.appendChild(doc.createElement("p"))).toThrow(
+      "documents can only have one element"
+    );
+    const frag = doc.createDocumentFragment();
+    frag.append(doc.createElement("a"), doc.createElement("b"));
+    expect(() => doc.replaceChild(frag, root)).toThrow(
+      "documents can only have one element"
+    );
+    expect(() =>
+      doc.insertBefore(parseFragment("text", { treeAdapter }), root)
+    ).toThrow("documents can't have text as children");
+    expect(() => doc.appendChild(doctype.cloneNode())).toThrow(
+      "documents can only have one doctype"
+    );
+    expect(() => doc.prepend(doc.createElement("html"))).toThrow(
+      "the document element must come after the doctype"
+    );
+
+    // comments can go anywhere
+    doc.prepend(doc.createComment("first"));
+    doc.append(doc.createComment("last"));
+    expect(doc.childNodes).toHaveLength(4);
+
+    // replacing the element or doctype is allowed
+    const html = doc.createElement("html");
+    const replacement = doc.createDocumentFragment();
+    replacement.append(doc.createComment("c"), doc.createElement("html"));
+    doc.replaceChild(replacement, root);
+    doc.replaceChild(html, doc.documentElement);
+    expect(doc.documentElement).toBe(html);
+    doc.replaceChild(doctype.cloneNode(), doctype);
+    expect(doc.firstChild?.nodeType).toBe(NodeType.Comment);
+
+    doc.removeChild(doc.childNodes[1]);
+    expect(() => doc.append(doctype)).toThrow(
+      "doctypes must come before the document element"
+    );
+    expect(() => doc.prepend(doc.createComment("c"), doctype)).toThrow(
+      "only documents can have doctypes as children"
+    );
+    doc.removeChild(html);
+    doc.append(doctype);
+    expect(() => doc.insertBefore(html, doctype)).toThrow(
+      "the document element must come after the doctype"
+    );
+    doc.append(html);
+    expect(doc.documentElement).toBe(html);
+  });
+
+  test("strict", () => {
+    const adapter = createTreeAdapter({ strict: true });
+    const parsed = parseFragment(`<a></a><b></b>`, { treeAdapter: adapter });
+    const [a, b] = parsed.children;
+    const detached = adapter.createElement("img", html.NS.HTML, []);
+    for (const act of [
+      () => a.removeChild(b),
+      () => parsed.removeChild(detached),
+      () => parsed.insertBefore(detached, detached),
+      () => parsed.replaceChild(detached, detached),
+      () => a.replaceChild(detached, b),
+    ]) {
+      expect(act).toThrow(DOMException);
+      expect(act).toThrow("the node is not a child of this node");
+    }
+    expect(parsed.childNodes).toEqual([a, b]);
+    expect(detached.parentNode).toBeNull();
+
+    parsed.removeChild(a);
+    expect(parsed.childNodes).toEqual([b]);
+    parsed.replaceChild(a, b);
+    expect(parsed.childNodes).toEqual([a]);
+  });
+
+  test("linked children", () => {
+    const parsed = parseFragment(`<a></a><b></b><i></i>`, { treeAdapter });
+    const [a, b, i] = parsed.children;
+    const p = treeAdapter.createElement("p", html.NS.HTML, []);
+    const div = treeAdapter.createElement("div", html.NS.HTML, []);
+
+    function check(...expected: ChildNode[]): void {
+      expect(parsed.childNodes).toEqual(expected);
+      expect(parsed.firstChild).toBe(expected[0] ?? null);
+      expect(parsed.lastChild).toBe(expected[expected.length - 1] ?? null);
+      expected.forEach((node, ind) => {
+        expect(node.parentNode).toBe(parsed);
+        expect(node.previousSibling).toBe(expected[ind - 1] ?? null);
+        expect(node.nextSibling).toBe(expected[ind + 1] ?? null);
+      });
+    }
+
+    check(a, b, i);
+    treeAdapter.insertBefore(parsed, p, b);
+    check(a, p, b, i);
+    parsed.replaceChild(div, a);
+    check(div, p, b, i);
+    parsed.replaceChild(i, p);
+    check(div, i, b);
+    parsed.appendChild(div);
+    check(i, b, div);
+    treeAdapter.detachNode(b);
+    check(i, div);
+    expect(b.previousSibling).toBeNull();
+    expect(b.nextSibling).toBeNull();
+    parsed.removeChild(div);
+    parsed.removeChild(i);
+    check();
+    expect(parsed.hasChildNodes()).toBe(false);
+  });
+
   test("#nextSibling()", () => {
     const content = `<div></div>Text<div></div>`;
     const parsed = parseFragment(content, { treeAdapter });
@@ -184,6 +1072,101 @@ describe("parsing", () => {
     expect(img.nextElementSibling).toBeNull();
   });
 
+  test("#previousSibling()", () => {
+    const content = `<div></div>Text<div></div>`;
+    const parsed = parseFragment(content, { treeAdapter });
+    const [d1, txt, d2] = parsed.childNodes;
+    expect(d2.previousSibling).toBe(txt);
+    expect(txt.previousSibling).toBe(d1);
+    expect(d1.previousSibling).toBeNull();
+
+    const img = treeAdapter.createElement("img", html.NS.HTML, []);
+    expect(img.previousSibling).toBeNull();
+  });
+
+  test("#previousElementSibling()", () => {
+    const content = `<div></div>Text<p></p>`;
+    const parsed = parseFragment(content, { treeAdapter });
+    const [div, txt, p] = parsed.childNodes;
+    expect(p.previousElementSibling).toBe(div);
+    expect(txt.previousElementSibling).toBe(div);
+    expect(div.previousElementSibling).toBeNull();
+
+    const img = treeAdapter.createElement("img", html.NS.HTML, []);
+    expect(img.previousElementSibling).toBeNull();
+  });
+
+  test("#lastChild() & #lastElementChild()", () => {
+    const content = `<div><p></p><img>Text</div>`;
+    const parsed = parseFragment(content, { treeAdapter });
+    const [div] = parsed.children;
+    const [, img, txt] = div.childNodes;
+    expect(div.lastChild).toBe(txt);
+    expect(div.lastElementChild).toBe(img);
+    expect(div.childElementCount).toBe(2);
+    expect(parsed.lastChild).toBe(div);
+
+    const empty = treeAdapter.createElement("div", html.NS.HTML, []);
+    expect(empty.lastChild).toBeNull();
+    expect(empty.lastElementChild).toBeNull();
+    expect(empty.childElementCount).toBe(0);
+  });
+
+  test("#parentElement()", () => {
+    const content = `<div><p>Text</p></div>`;
+    const parsed = parseFragment(content, { treeAdapter });
+    const [div] = parsed.children;
+    const [p] = div.children;
+    const [txt] = p.childNodes;
+    expect(txt.parentElement).toBe(p);
+    expect(p.parentElement).toBe(div);
+    expect(div.parentElement).toBeNull();
+  });
+
+  test("#hasChildNodes() & #contains()", () => {
+    const content = `<div><p>Text</p></div><img>`;
+    const parsed = parseFragment(content, { treeAdapter });
+    const [div, img] = parsed.children;
+    const [p] = div.children;
+    const [txt] = p.childNodes;
+
+    expect(parsed.hasChildNodes()).toBe(true);
+    expect(div.hasChildNodes()).toBe(true);
+    expect(img.hasChildNodes()).toBe(false);
+    expect(txt.hasChildNodes()).toBe(false);
+
+    expect(parsed.contains(txt)).toBe(true);
+    expect(div.contains(div)).toBe(true);
+    expect(div.contains(txt)).toBe(true);
+    expect(div.contains(img)).toBe(false);
+    expect(div.contains(parsed)).toBe(false);
+    expect(div.contains(null)).toBe(false);
+    expect(txt.contains(txt)).toBe(true);
+    expect(txt.contains(p)).toBe(false);
+  });
+
+  test("#isConnected & #getRootNode()", () => {
+    const content = `<!doctype html><html><body><p>Text</p></body></html>`;
+    const parsed = parse(content, { treeAdapter });
+    const [p] = parsed.getElementsByTagName("p");
+    const [txt] = p.childNodes;
+    expect(parsed.isConnected).toBe(true);
+    expect(p.isConnected).toBe(true);
+    expect(txt.isConnected).toBe(true);
+    expect(txt.getRootNode()).toBe(parsed);
+    expect(parsed.getRootNode()).toBe(parsed);
+
+    const frag = parseFragment(`<p>Text</p>`, { treeAdapter });
+    const [fp] = frag.children;
+    expect(frag.isConnected).toBe(false);
+    expect(fp.isConnected).toBe(false);
+    expect(fp.getRootNode()).toBe(frag);
+
+    const img = treeAdapter.createElement("img", html.NS.HTML, []);
+    expect(img.isConnected).toBe(false);
+    expect(img.getRootNode()).toBe(img);
+  });
+
   test("rigorous parsing", () => {
     const content = `
     <!doctype html>
@@ -235,9 +1218,31 @@ describe("adapter", () => {
   </html>`;
   const doc = parse(content, { treeAdapter, sourceCodeLocationInfo: true });
 
-  test("null owner document", () => {
+  test("owner document", () => {
     const node = treeAdapter.createElement("p", html.NS.HTML, []);
-    expect(() => node.ownerDocument).toThrow("null");
+    expect(node.parentNode).toBeNull();
+    expect(node.ownerDocument.nodeType).toBe(NodeType.Document);
+
+    // created nodes don't belong to any document that was parsed
+    const parsed = parse(`<p id="a">a</p>`, { treeAdapter });
+    const created = treeAdapter.createElement("p", html.NS.HTML, [
+      { name: "id", value: "b" },
+    ]);
+    const comment = treeAdapter.createCommentNode("text");
+    const frag = treeAdapter.createDocumentFragment();
+    for (const owner of [created, comment, frag].map(
+      (node) => node.ownerDocument
+    )) {
+      expect(owner).not.toBe(parsed);
+      expect(owner).not.toBe(node.ownerDocument);
+      expect(owner.childNodes).toHaveLength(0);
+    }
+    expect(parsed.getElementById("b")).toBeNull();
+
+    // until they're inserted
+    treeAdapter.appendChild(parsed.body, created);
+    expect(created.ownerDocument).toBe(parsed);
+    expect(parsed.getElementById("b")).toBe(created);
   });
 
   test("#getDocumentMode()", () => {
@@ -288,6 +1293,13 @@ describe("adapter", () => {
     treeAdapter.insertTextBefore(p, "extra", ref);
     treeAdapter.insertTextBefore(p, " plus ", ref);
     expect(p.textContent).toBe("extra plus This is a really short article");
+
+    const detached = treeAdapter.createElement("img", html.NS.HTML, []);
+    treeAdapter.insertTextBefore(p, " appended", detached);
+    expect(p.textContent).toBe(
+      "extra plus This is a really short article appended"
+    );
+    expect(p.childNodes).toHaveLength(3);
   });
 
   test("#adoptAttributes()", () => {
@@ -343,6 +1355,16 @@ describe("adapter", () => {
     expect(treeAdapter.getCommentNodeContent(comment)).toBe(" header comment ");
   });
 
+  test("#setDocumentType()", () => {
+    const parsed = parse(`<!-- comment --><!doctype html>`, { treeAdapter });
+    treeAdapter.setDocumentType(parsed, "name", "", "");
+    const [comment, doctype] = parsed.childNodes;
+    expect(comment.nodeType).toBe(NodeType.Comment);
+    expect(doctype.nodeType === NodeType.DocumentType && doctype.name).toBe(
+      "name"
+    );
+  });
+
   test("#getDocumentTypeNode*()", () => {
     const content = `<!doctype html>`;
     const parsed = parse(content, { treeAdapter });
@@ -377,6 +1399,113 @@ describe("adapter", () => {
   });
 });
 
+describe("caching", () => {
+  const cached = createTreeAdapter({ cache: true, parseFragment });
+  const content = `<div id="a"><p>one <b>two</b></p><!-- c --><p> three</p></div>`;
+
+  test("#textContent", () => {
+    const frag = parseFragment(content, { treeAdapter: cached });
+    const [div] = frag.children;
+    const [first, second] = div.children;
+    expect(div.textContent).toBe("one two three");
+    expect(first.textContent).toBe("one two");
+
+    const [bold] = first.getElementsByTagName("b");
+    const text = bold.firstChild;
+    if (text?.nodeType !== NodeType.Text) throw new Error("not text");
+    text.value = "2";
+    expect(div.textContent).toBe("one 2 three");
+
+    div.removeChild(second);
+    expect(div.textContent).toBe("one 2");
+
+    div.appendChild(second);
+    div.replaceChild(second, first);
+    expect(div.textContent).toBe(" three");
+
+    cached.insertText(second, "!");
+    expect(div.textContent).toBe(" three!");
+    cached.insertTextBefore(second, "?", second.firstChild as ChildNode);
+    expect(div.textContent).toBe("? three!");
+    cached.detachNode(second);
+    expect(div.textContent).toBe("");
+
+    // detached text has nothing to invalidate
+    text.remove();
+    text.value = "two";
+    div.append(text);
+    expect(div.textContent).toBe("two");
+  });
+
+  test("#getElementsByTagName()", () => {
+    const frag = parseFragment(content, { treeAdapter: cached });
+    const [div] = frag.children;
+    expect(frag.getElementsByTagName("p")).toHaveLength(2);
+    expect(frag.getElementsByTagName("*")).toHaveLength(4);
+
+    // results are copies
+    frag.getElementsByTagName("p").pop();
+    expect(frag.getElementsByTagName("p")).toHaveLength(2);
+
+    const [first] = div.children;
+    first.appendChild(cached.createElement("p", html.NS.HTML, []));
+    expect(frag.getElementsByTagName("P")).toHaveLength(3);
+    expect(div.getElementsByTagName("*")).toHaveLength(4);
+
+    cached.insertBefore(
+      div,
+      cached.createElement("b", html.NS.HTML, []),
+      first
+    );
+    expect(frag.getElementsByTagName("b")).toHaveLength(2);
+    expect(frag.getElementsByTagName("b")[0]).toBe(div.firstChild);
+
+    div.removeChild(first);
+    expect(frag.getElementsByTagName("p")).toHaveLength(1);
+    expect(frag.getElementsByTagName("*")).toHaveLength(3);
+  });
+
+  test("created elements", () => {
+    const doc = parse(content, { treeAdapter: cached });
+    const elem = doc.createElement("p");
+    expect(elem.getElementsByTagName("*")).toHaveLength(0);
+    elem.appendChild(doc.createElement("b"));
+    expect(elem.getElementsByTagName("*")).toHaveLength(1);
+
+    elem.innerHTML = "<i><b>text</b></i>";
+    expect(elem.getElementsByTagName("*")).toHaveLength(2);
+    expect(elem.textContent).toBe("text");
+    const [italic] = elem.children;
+    italic.innerHTML = "<b>a</b><b>b</b>";
+    expect(elem.getElementsByTagName("b")).toHaveLength(2);
+    expect(elem.textContent).toBe("ab");
+    italic.textContent = "plain";
+    expect(elem.getElementsByTagName("*")).toHaveLength(1);
+    expect(elem.textContent).toBe("plain");
+  });
+
+  test("readability", () => {
+    const opts = { charThreshold: 0 };
+    const paragraphs = loremIpsum({ count: 5, units: "paragraphs" })
+      .split("\n")
+      .map((p) => `<p>${p} <a href="#">link</a></p>`);
+    const content = `
+    <!doctype html>
+    <html>
+      <head><title>Title</title></head>
+      <body><div><article>${paragraphs.join("")}</article></div></body>
+    </html>`;
+    const dom = new JSDOM(content);
+    const expected = new Readability(dom.window.document, opts).parse();
+
+    const parsed = parse(content, { treeAdapter: cached });
+    const actual = new Readability(parsed as unknown as Document, opts).parse();
+    expect(actual).not.toBeNull();
+    expect(actual?.textContent).toBe(expected?.textContent);
+    expect(actual?.content).toBe(expected?.content);
+  });
+});
+
 describe("readability", () => {
   test("minimal", () => {
     const opts = { charThreshold: 0 };
@@ -430,14 +1559,49 @@ describe("readability", () => {
     const actual = new Readability(parsed as unknown as Document, opts).parse();
     expect(actual).not.toBeNull();
     expect(actual?.content).toContain(
-      `<img src="test.png" srcset="large.png 100w"/>`
-    );
-    expect(actual?.content).toBe(
-      expected?.content?.replace(
-        `<img src="test.png" srcset="large.png 100w">`,
-        `<img src="test.png" srcset="large.png 100w"/>`
-      )
+      `<img src="test.png" srcset="large.png 100w">`
     );
+    expect(actual?.content).toBe(expected?.content);
+  });
+
+  test("inline svg", () => {
+    const opts = { charThreshold: 0 };
+    const [a, b, c] = loremIpsum({ count: 3, units: "paragraphs" })
+      .split("\n")
+      .map((p) => `<p>${p}</p>`);
+    const content = `
+    <!doctype html>
+    <html>
+      <head><title>Title</title></head>
+      <body>
+        <article>
+          ${a}
+          <figure>
+            <svg viewBox="0 0 100 100" xmlns:xlink="http://www.w3.org/1999/xlink">
+              <defs>
+                <linearGradient id="grad"><stop offset="0" stop-color="red"/></linearGradient>
+                <clipPath id="clip"><rect width="50" height="50"/></clipPath>
+              </defs>
+              <circle cx="50" cy="50" r="40" fill="url(#grad)" clip-path="url(#clip)"/>
+              <use xlink:href="#grad"/>
+              <foreignObject width="100" height="20"><p>Label</p></foreignObject>
+            </svg>
+            <figcaption>A chart</figcaption>
+          </figure>
+          ${b}
+          ${c}
+        </article>
+      </body>
+    </html>`;
+    const dom = new JSDOM(content);
+    const expected = new Readability(dom.window.document, opts).parse();
+
+    const parsed = parse(content, { treeAdapter });
+    const actual = new Readability(parsed as unknown as Document, opts).parse();
+    expect(actual).not.toBeNull();
+    expect(actual?.content).toContain("<linearGradient");
+    expect(actual?.content).toContain(`<use xlink:href="#grad"></use>`);
+    expect(actual?.content).toBe(expected?.content);
   });
 
   test("links", () => {
@@ -460,4 +1624,202 @@ describe("readability", () => {
     expect(actual?.content).toContain(`<a href="#">veniam</a>`);
     expect(actual?.content).toBe(expected?.content);
   });
+
+  test("live collections", () => {
+    const opts = { charThreshold: 0 };
+    const paragraphs = loremIpsum({ count: 6, units: "paragraphs" })
+      .split("\n")
+      .map((p, i) => (i % 2 ? `<div>${p}</div>` : `<p>${p}</p>`));
+    const content = `
+    <!doctype html>
+    <html>
+      <head><title>Title</title></head>
+      <body><div><section>${paragraphs.join(
+        ""
+      )}</section><aside>aside</aside></div></body>
+    </html>`;
+    const dom = new JSDOM(content);
+    const expected = new Readability(dom.window.document, opts).parse();
+
+    const treeAdapter = createTreeAdapter({ live: true });
+    const parsed = parse(content, { treeAdapter });
+    const actual = new Readability(parsed as unknown as Document, opts).parse();
+    expect(actual).not.toBeNull();
+    expect(actual?.content).toBe(expected?.content);
+  });
+
+  test("relative urls", () => {
+    const opts = { charThreshold: 0 };
+    const url = "https://example.com/posts/1";
+    const content = `
+    <!doctype html>
+    <html>
+      <head><base href="/static/"></head>
+      <body>
+        <p>Irure Lorem sit minim velit veniam do amet ut laboris. Ut <a href="other">veniam</a> nulla minim sunt. Ut non nisi et veniam consequat dolor enim consequat enim ex laborum laborum exercitation. Ullamco exercitation commodo officia incididunt nostrud in deserunt.</p>
+        <img src="test.png">
+        <p>Ea ad reprehenderit in mollit est ipsum elit. Dolore dolor quis proident excepteur nulla nulla elit aute. Irure duis esse deserunt exercitation minim magna eu cupidatat adipisicing mollit nisi nostrud dolor. Dolor consequat eu est ea consectetur magna enim ea id elit aliquip duis do. Et ad fugiat id sunt cupidatat ex excepteur amet duis laborum tempor proident eiusmod occaecat. Magna ea minim consequat aliqua cupidatat deserunt eiusmod. Ipsum veniam sunt anim officia est.</p>
+      </body>
+    </html>`;
+    const dom = new JSDOM(content, { url });
+    const expected = new Readability(dom.window.document, opts).parse();
+
+    const parsed = parse(content, { treeAdapter: createTreeAdapter({ url }) });
+    const actual = new Readability(parsed as unknown as Document, opts).parse();
+    expect(actual).not.toBeNull();
+    expect(actual?.content).toContain(
+      `<a href="https://example.com/static/other">veniam</a>`
+    );
+    expect(actual?.content).toContain(
+      `<img src="https://example.com/static/test.png">`
+    );
+    expect(actual?.content).toBe(expected?.content);
+  });
+
+  test("isProbablyReaderable", () => {
+    const [long, other] = loremIpsum({ count: 2, units: "paragraphs" })
+      .split("\n")
+      .map((p) => p.repeat(3));
+    const contents = [
+      `<article><p>${long}</p><p>${other}</p></article>`,
+      `<p>short</p>`,
+      `<div>${long}<br><br>${other}</div>`,
+      `<pre>${long}${other}</pre>`,
+      `<ul><li><p>${long}</p></li><li><p>${other}</p></li></ul>`,
+      `<p hidden>${long}</p><p style="display: none">${other}</p>`,
+      `<p aria-hidden="true">${long}</p><p class="sidebar">${other}</p>`,
+      `<p aria-hidden="true" class="fallback-image">${long}</p><p class="sidebar content">${other}</p>`,
+      `<svg><p>${long}</p></svg><math><p>${other}</p></math>`,
+    ];
+    for (const content of contents) {
+      const dom = new JSDOM(content);
+      const expected = isProbablyReaderable(dom.window.document);
+      const parsed = parse(content, { treeAdapter });
+      const actual = isProbablyReaderable(parsed as unknown as Document);
+      expect(actual).toBe(expected);
+      expect(isReaderable(parsed)).toBe(expected);
+    }
+    expect(
+      contents.map((content) => isReaderable(parse(content, { treeAdapter })))
+    ).toEqual([true, false, true, true, false, false, false, true, true]);
+  });
+
+  test("isReaderable", () => {
+    const text = loremIpsum({ count: 1, units: "paragraphs" }).repeat(3);
+    const paragraph = `<p>${text}</p>`;
+    const parsed = parse(paragraph.repeat(3), { treeAdapter });
+    expect(isReaderable(parsed)).toBe(true);
+    expect(isReaderable(parsed, { minScore: 1000 })).toBe(false);
+    expect(isReaderable(parsed, { minContentLength: 10000 })).toBe(false);
+    const visible: string[] = [];
+    expect(
+      isReaderable(parsed, {
+        visibilityChecker: (elem) => {
+          visible.push(elem.tagName);
+          return false;
+        },
+      })
+    ).toBe(false);
+    expect(visible).toEqual(["P", "P", "P"]);
+
+    // the document isn't modified
+    expect(parsed.body.innerHTML).toBe(paragraph.repeat(3));
+  });
+});
+
+describe("performance", () => {
+  // NOTE timing is left to `yarn bench`, so these only check that the fast
+  // paths stay correct on large documents
+
+  const num = 20000;
+  const content = Array.from(
+    { length: num },
+    (_, ind) => `<p id="p${ind}">paragraph</p>`
+  ).join("");
+
+  /** the ids of parent's children following sibling links forward and back */
+  function siblingIds(parent: ParentNode): (string | undefined)[][] {
+    const forward = [];
+    for (
+      let node = parent.firstElementChild;
+      node;
+      node = node.nextElementSibling
+    ) {
+      forward.push(node.id);
+    }
+    const backward = [];
+    for (
+      let node = parent.lastElementChild;
+      node;
+      node = node.previousElementSibling
+    ) {
+      backward.push(node.id);
+    }
+    return [forward, backward.reverse()];
+  }
+
+  test("sibling navigation", () => {
+    const parsed = parseFragment(content, { treeAdapter });
+    const ids = parsed.children.map((elem) => elem.id);
+    expect(ids).toHaveLength(num);
+    expect(siblingIds(parsed)).toEqual([ids, ids]);
+  });
+
+  test("removal while iterating", () => {
+    // readability's pattern of removing nodes and continuing from the sibling
+    const parsed = parseFragment(content, { treeAdapter });
+    let remove = false;
+    let node = parsed.firstChild;
+    while (node) {
+      const next = node.nextSibling;
+      if ((remove = !remove)) parsed.removeChild(node);
+      node = next;
+    }
+    const ids = Array.from({ length: num / 2 }, (_, ind) => `p${ind * 2 + 1}`);
+    expect(parsed.children.map((elem) => elem.id)).toEqual(ids);
+    expect(siblingIds(parsed)).toEqual([ids, ids]);
+  });
+
+  test("child snapshots", () => {
+    const [parent] = parseFragment("<p>a</p>", { treeAdapter }).children;
+    const { childNodes } = parent;
+    parent.append("b");
+    parent.insertBefore(parent.ownerDocument.createTextNode("c"), null);
+    parent.prepend("d");
+    expect(childNodes).toHaveLength(1);
+    expect(parent.childNodes).toHaveLength(4);
+    expect(parent.childNodes).not.toBe(childNodes);
+    parent.lastChild?.remove();
+    expect(parent.childNodes).toHaveLength(3);
+  });
+
+  test("repeated text content", () => {
+    // readability's pattern of reading the text of every paragraph's ancestors
+    const nested = `<div><div><div>${"<p>paragraph</p>".repeat(
+      500
+    )}</div></div></div>`;
+    function query(adapter: typeof treeAdapter): number {
+      const parsed = parseFragment(nested, { treeAdapter: adapter });
+      const paragraphs = parsed.getElementsByTagName("p");
+      const reads = jest.spyOn(
+        Object.getPrototypeOf(paragraphs[0].firstChild) as TextNode,
+        "value",
+        "get"
+      );
+      let length = 0;
+      for (const para of paragraphs) {
+        for (let node = para.parentElement; node; node = node.parentElement) {
+          length += node.textContent.length;
+        }
+      }
+      expect(length).toBe(500 * 3 * 500 * 9);
+      const count = reads.mock.calls.length;
+      reads.mockRestore();
+      return count;
+    }
+
+    // every text is read once, instead of once for every ancestor it's in
+    expect(query(createTreeAdapter({ cache: true }))).toBe(500);
+    expect(query(treeAdapter)).toBe(500 * 3 * 500);
+  });
 });
@@ -13,6 +13,26 @@
  * @packageDocumentation
  */
 import { html, Token, TreeAdapter, TreeAdapterTypeMap } from "parse5";
+import { createDataset, TokenList } from "./attributes";
+import { createHTMLCollection, createNodeList, mutated } from "./collection";
+import { htmlNamespace } from "./html";
+import { defineReflections, ReflectedProperty, resolveUrl } from "./reflect";
+import { compileSelector, matchesSelector } from "./selector";
+import { innerHtml, outerHtml } from "./serialize";
+import { createStyle } from "./style";
+import { innerText } from "./text";
+import {
+  isInclusiveAncestor,
+  Iter,
+  parentOf,
+  removing,
+  Walker,
+} from "./traversal";
+
+export { toMarkdown } from "./markdown";
+export type { MarkdownOptions } from "./markdown";
+export { serialize } from "./serialize";
+export type { SerializeOptions } from "./serialize";
 
 // ---------------------------- //
 // Interfaces for element types //
@@ -44,6 +64,51 @@ export const NodeType = {
   DocumentFragment: 11,
 } as const;
 
+/**
+ * the constants of node filters
+ *
+ * The `SHOW_*` masks have the bit `1 << (nodeType - 1)` of the
+ * {@link NodeType} they show, and the `FILTER_*` values are what filters
+ * return.
+ */
+export const NodeFilter = {
+  /** include the node */
+  FILTER_ACCEPT: 1,
+  /** exclude the node and, for tree walkers, its descendants */
+  FILTER_REJECT: 2,
+  /** exclude the node but not its descendants */
+  FILTER_SKIP: 3,
+  /** show every node */
+  SHOW_ALL: 0xffffffff,
+  /** show elements */
+  SHOW_ELEMENT: 0x1,
+  /** show attributes */
+  SHOW_ATTRIBUTE: 0x2,
+  /** show text */
+  SHOW_TEXT: 0x4,
+  /** show cdata sections */
+  SHOW_CDATA_SECTION: 0x8,
+  /** show processing instructions */
+  SHOW_PROCESSING_INSTRUCTION: 0x40,
+  /** show comments */
+  SHOW_COMMENT: 0x80,
+  /** show documents */
+  SHOW_DOCUMENT: 0x100,
+  /** show document types */
+  SHOW_DOCUMENT_TYPE: 0x200,
+  /** show document fragments */
+  SHOW_DOCUMENT_FRAGMENT: 0x400,
+} as const;
+
+/**
+ * a filter of the nodes that tree walkers and node iterators show
+ *
+ * It returns one of the `FILTER_*` constants of {@link NodeFilter}.
+ */
+export type NodeFilter =
+  | ((node: Node) => number)
+  | { acceptNode(node: Node): number };
+
 /**
  * the document mode
  *
@@ -69,34 +134,181 @@ export type ElementLocation = Token.ElementLocation;
 /** code location */
 export type Location = Token.Location;
 
-/** a node with children */
+/**
+ * a node with children
+ *
+ * Children are stored as a doubly linked list, so all sibling navigation and
+ * mutation is constant time, except that inserting or removing a subtree walks
+ * it to keep the id index up to date.
+ */
 export interface HasChildren {
-  /** the node's children */
-  childNodes: ChildNode[];
-}
-
-/** generic parent */
-export interface BaseParent extends HasChildren {
   /** the first child node */
   firstChild: ChildNode | null;
 
-  /** all children elements */
+  /** the last child node */
+  lastChild: ChildNode | null;
+}
+
+/** functionality shared by all nodes */
+export interface BaseNode {
+  /** true if the tree this node is in is rooted at a document */
+  readonly isConnected: boolean;
+
+  /**
+   * the absolute url that relative urls of this node resolve against
+   *
+   * This is the `href` of the first `<base>` in the head of the document with
+   * one, and otherwise the url of the document.
+   */
+  readonly baseURI: string;
+
+  /** if this node has any children */
+  hasChildNodes(): boolean;
+
+  /** if `other` is an inclusive descendant of this node */
+  contains(other: Node | null): boolean;
+
+  /** the root of the tree this node is in, possibly itself */
+  getRootNode(): Node;
+
+  /**
+   * a copy of this node, and all of its descendants if deep
+   *
+   * Attributes are copied by value, and the content of templates is copied
+   * when deep. The copy doesn't have a parent.
+   */
+  cloneNode(deep?: boolean, options?: CloneOptions): this;
+
+  /** if other is structurally the same node, regardless of attribute order */
+  isEqualNode(other: Node | null): boolean;
+}
+
+/** options for {@link BaseNode#cloneNode} */
+export interface CloneOptions {
+  /**
+   * also copy the source code location of every node
+   *
+   * @defaultValue false
+   */
+  sourceCodeLocation?: boolean;
+}
+
+/** generic parent */
+export interface BaseParent extends HasChildren, BaseNode {
+  /**
+   * the node's children
+   *
+   * This is built from the linked children on demand, and is a snapshot that
+   * doesn't change when the children do, so it shouldn't be modified. With
+   * {@link TreeAdapterOptions#live} it's a live {@link NodeList} instead.
+   */
+  readonly childNodes: readonly ChildNode[];
+
+  /**
+   * all children elements
+   *
+   * With {@link TreeAdapterOptions#live} this is a live {@link HTMLCollection}.
+   */
   children: Element[];
 
   /** first child element */
   firstElementChild: Element | null;
 
-  /** append a child */
-  appendChild(child: ChildNode): void;
-
-  /** replace `child` with `replacement` */
-  replaceChild(replacement: ChildNode, child: ChildNode): void;
-
-  /** remove the child node */
+  /** last child element */
+  lastElementChild: Element | null;
+
+  /** the number of child elements */
+  childElementCount: number;
+
+  /**
+   * append a child, or the children of a fragment
+   *
+   * @throws DOMException `HierarchyRequestError` if child contains this, or
+   * if the result would be an invalid tree
+   */
+  appendChild(child: ChildNode | DocumentFragment): void;
+
+  /**
+   * insert a node before `child`, or append it if `child` is null
+   *
+   * @throws DOMException `HierarchyRequestError` if node contains this, or if
+   * the result would be an invalid tree, and `NotFoundError` if `child` isn't
+   * a child in strict mode
+   */
+  insertBefore(
+    node: ChildNode | DocumentFragment,
+    child: ChildNode | null
+  ): void;
+
+  /**
+   * replace `child` with `replacement`
+   *
+   * @throws DOMException `HierarchyRequestError` if replacement contains
+   * this, or if the result would be an invalid tree, and `NotFoundError` if
+   * `child` isn't a child in strict mode
+   */
+  replaceChild(
+    replacement: ChildNode | DocumentFragment,
+    child: ChildNode
+  ): void;
+
+  /**
+   * remove the child node
+   *
+   * @throws DOMException `NotFoundError` if `child` isn't a child in strict
+   * mode
+   */
   removeChild(child: ChildNode): void;
 
+  /**
+   * insert nodes before the first child, strings are inserted as text
+   *
+   * @throws DOMException `HierarchyRequestError` if a node contains this, or
+   * if the result would be an invalid tree
+   */
+  prepend(...nodes: (ChildNode | DocumentFragment | string)[]): void;
+
+  /**
+   * append nodes after the last child, strings are inserted as text
+   *
+   * @throws DOMException `HierarchyRequestError` if a node contains this, or
+   * if the result would be an invalid tree
+   */
+  append(...nodes: (ChildNode | DocumentFragment | string)[]): void;
+
+  /**
+   * replace all children with nodes, strings are inserted as text
+   *
+   * @throws DOMException `HierarchyRequestError` if a node contains this, or
+   * if the result would be an invalid tree
+   */
+  replaceChildren(...nodes: (ChildNode | DocumentFragment | string)[]): void;
+
   /** mock of standard getElementsByTagName */
   getElementsByTagName(tag: string): Element[];
+
+  /**
+   * all descendant elements that have every space separated class in
+   * classNames, in document order
+   */
+  getElementsByClassName(classNames: string): Element[];
+
+  /** all descendant html elements whose `name` attribute is name */
+  getElementsByName(name: string): Element[];
+
+  /**
+   * the first descendant element that matches a css selector
+   *
+   * @throws SyntaxError if the selector is invalid or unsupported
+   */
+  querySelector(selector: string): Element | null;
+
+  /**
+   * all descendant elements that match a css selector in document order
+   *
+   * @throws SyntaxError if the selector is invalid or unsupported
+   */
+  querySelectorAll(selector: string): Element[];
 }
 
 /** a node with a parent */
@@ -106,15 +318,51 @@ export interface HasParent {
 }
 
 /** generic child */
-export interface BaseChild extends HasParent {
-  /** get the owning document */
+export interface BaseChild extends HasParent, BaseNode {
+  /** the document this node belongs to */
   ownerDocument: Document;
 
+  /** the parent node if it's an element */
+  parentElement: Element | null;
+
   /** the next sibling node in order */
   nextSibling: ChildNode | null;
 
+  /** the previous sibling node in order */
+  previousSibling: ChildNode | null;
+
   /** next sibling element from this node */
   nextElementSibling: Element | null;
+
+  /** previous sibling element from this node */
+  previousElementSibling: Element | null;
+
+  /** remove this node from its parent */
+  remove(): void;
+
+  /**
+   * insert nodes before this node, strings are inserted as text
+   *
+   * @throws DOMException `HierarchyRequestError` if a node contains the
+   * parent, or if the result would be an invalid tree
+   */
+  before(...nodes: (ChildNode | DocumentFragment | string)[]): void;
+
+  /**
+   * insert nodes after this node, strings are inserted as text
+   *
+   * @throws DOMException `HierarchyRequestError` if a node contains the
+   * parent, or if the result would be an invalid tree
+   */
+  after(...nodes: (ChildNode | DocumentFragment | string)[]): void;
+
+  /**
+   * replace this node with nodes, strings are inserted as text
+   *
+   * @throws DOMException `HierarchyRequestError` if a node contains the
+   * parent, or if the result would be an invalid tree
+   */
+  replaceWith(...nodes: (ChildNode | DocumentFragment | string)[]): void;
 }
 
 /**
@@ -122,10 +370,6 @@ export interface BaseChild extends HasParent {
  *
  * This represents a combination of the minimum document required by parse5,
  * and the minimum document required by Readability.
- *
- * @remarks Because Readability requires {@link Element#ownerDocument}, the easiest way
- * to implement this was to have new nodes created with their parent pointing
- * to document, but that technically violates the structure.
  */
 export interface Document extends BaseParent {
   /** nodeName */
@@ -152,8 +396,144 @@ export interface Document extends BaseParent {
   /** the header title */
   title: string;
 
-  /** create a new element */
+  /** the url of the document, set by {@link TreeAdapterOptions#url} */
+  readonly URL: string;
+
+  /** the url of the document, an alias of `URL` */
+  readonly documentURI: string;
+
+  /** create a new html element, lower casing the tag name like the parser */
   createElement(tagName: string): Element;
+
+  /**
+   * create a new element in a namespace, preserving the case of its name
+   *
+   * @remarks prefixes aren't split from the local name, so `qualifiedName`
+   * should generally be unprefixed.
+   */
+  createElementNS(namespaceURI: Namespace, qualifiedName: string): Element;
+
+  /** create a new text node */
+  createTextNode(data: string): TextNode;
+
+  /** create a new comment */
+  createComment(data: string): CommentNode;
+
+  /** create a new empty document fragment */
+  createDocumentFragment(): DocumentFragment;
+
+  /** copy a node, and its descendants if deep, into this document */
+  importNode<T extends ChildNode | DocumentFragment>(
+    node: T,
+    deep?: boolean
+  ): T;
+
+  /** remove a node from its parent and move it, and its descendants, into this document */
+  adoptNode<T extends ChildNode | DocumentFragment>(node: T): T;
+
+  /**
+   * the first element in the document with an id
+   *
+   * @remarks ids are indexed when they're set through element methods or
+   * while parsing, so ids added directly to `attributes` aren't found.
+   */
+  getElementById(id: string): Element | null;
+
+  /**
+   * a tree walker over the descendants of root
+   *
+   * @param whatToShow - a mask of the `SHOW_*` constants of {@link NodeFilter}
+   * @param filter - which of the shown nodes to accept
+   */
+  createTreeWalker(
+    root: Node,
+    whatToShow?: number,
+    filter?: NodeFilter | null
+  ): TreeWalker;
+
+  /**
+   * a node iterator over root and its descendants
+   *
+   * @param whatToShow - a mask of the `SHOW_*` constants of {@link NodeFilter}
+   * @param filter - which of the shown nodes to accept
+   */
+  createNodeIterator(
+    root: Node,
+    whatToShow?: number,
+    filter?: NodeFilter | null
+  ): NodeIterator;
+}
+
+/**
+ * walks a tree from its current node
+ *
+ * Filters that reject a node also skip its descendants.
+ */
+export interface TreeWalker {
+  /** the root of the walk */
+  readonly root: Node;
+
+  /** a mask of the nodes to show */
+  readonly whatToShow: number;
+
+  /** which of the shown nodes to accept */
+  readonly filter: NodeFilter | null;
+
+  /** the node the walker is at, which can be set to any node */
+  currentNode: Node;
+
+  /** move to the closest accepted ancestor within root */
+  parentNode(): Node | null;
+
+  /** move to the first accepted child */
+  firstChild(): Node | null;
+
+  /** move to the last accepted child */
+  lastChild(): Node | null;
+
+  /** move to the previous accepted sibling */
+  previousSibling(): Node | null;
+
+  /** move to the next accepted sibling */
+  nextSibling(): Node | null;
+
+  /** move to the previous accepted node in tree order */
+  previousNode(): Node | null;
+
+  /** move to the next accepted node in tree order */
+  nextNode(): Node | null;
+}
+
+/**
+ * iterates over the nodes of a tree in order
+ *
+ * Unlike tree walkers, rejecting a node doesn't skip its descendants, and the
+ * iterator stays valid when its reference node is removed.
+ */
+export interface NodeIterator {
+  /** the root of the iteration */
+  readonly root: Node;
+
+  /** the node the iterator is next to */
+  readonly referenceNode: Node;
+
+  /** if the iterator is before the reference node */
+  readonly pointerBeforeReferenceNode: boolean;
+
+  /** a mask of the nodes to show */
+  readonly whatToShow: number;
+
+  /** which of the shown nodes to accept */
+  readonly filter: NodeFilter | null;
+
+  /** the next accepted node */
+  nextNode(): Node | null;
+
+  /** the previous accepted node */
+  previousNode(): Node | null;
+
+  /** does nothing, and only exists for compatibility */
+  detach(): void;
 }
 
 /** a document fragment */
@@ -166,23 +546,133 @@ export interface DocumentFragment extends BaseParent {
 
   /** fragment source code location info: available if location info is enabled */
   sourceCodeLocation?: Location | null;
+
+  /** the document this fragment belongs to */
+  ownerDocument: Document;
+
+  /** the first element in the fragment with an id, like {@link Document#getElementById} */
+  getElementById(id: string): Element | null;
+}
+
+/**
+ * a live set of the space separated tokens of an attribute
+ *
+ * Tokens that are added or toggled are validated like the browser, throwing
+ * a `SyntaxError` DOMException if empty and an `InvalidCharacterError` if
+ * they contain whitespace.
+ */
+export interface DOMTokenList extends Iterable<string> {
+  /** the number of unique tokens */
+  readonly length: number;
+
+  /** the attribute value */
+  value: string;
+
+  /** the token at index, or null */
+  item(index: number): string | null;
+
+  /** if the token is in the list */
+  contains(token: string): boolean;
+
+  /** add tokens that aren't in the list */
+  add(...tokens: string[]): void;
+
+  /** remove tokens from the list */
+  remove(...tokens: string[]): void;
+
+  /**
+   * remove token if present or add it if not, unless force says which
+   *
+   * @returns if the token is now in the list
+   */
+  toggle(token: string, force?: boolean): boolean;
+
+  /**
+   * replace token with newToken in place
+   *
+   * @returns if token was in the list
+   */
+  replace(token: string, newToken: string): boolean;
+}
+
+/**
+ * a live list of nodes
+ *
+ * This is a read only array whose nodes reflect later mutations, including
+ * while iterating over it.
+ */
+export interface NodeList extends ReadonlyArray<ChildNode> {
+  /** the node at index, or null */
+  item(index: number): ChildNode | null;
+}
+
+/** a live list of elements, like {@link NodeList} */
+export interface HTMLCollection extends ReadonlyArray<Element> {
+  /** the element at index, or null */
+  item(index: number): Element | null;
+
+  /** the first element whose id, or name if it's html, is name */
+  namedItem(name: string): Element | null;
+}
+
+/** a live map of camel case keys to `data-*` attributes */
+export interface DOMStringMap {
+  [key: string]: string | undefined;
+}
+
+/**
+ * the declarations of an inline style
+ *
+ * Besides the methods, properties can be read and written by their camel case
+ * names, e.g. `style.backgroundColor`, which are always strings. Values that
+ * are set aren't validated beyond being a single declaration.
+ */
+export interface CSSStyleDeclaration {
+  /** the serialized declarations, setting replaces all of them */
+  cssText: string;
+
+  /** the number of declarations */
+  readonly length: number;
+
+  /** the property name at index, or the empty string */
+  item(index: number): string;
+
+  /** the value of a property, or the empty string if it isn't declared */
+  getPropertyValue(property: string): string;
+
+  /** `important` if the property is declared important, else the empty string */
+  getPropertyPriority(property: string): string;
+
+  /** declare a property, an empty value removes it */
+  setProperty(property: string, value: string | null, priority?: string): void;
+
+  /** remove a property, returning its old value */
+  removeProperty(property: string): string;
+
+  /** camel case property values */
+  [property: string]: unknown;
 }
 
 /** an html element */
 export interface Element extends BaseParent, BaseChild {
-  /** nodeName: uppercase */
+  /** nodeName: the same as the tag name */
   readonly nodeName: string;
 
   /** nodeType */
   readonly nodeType: typeof NodeType.Element;
 
-  /** element tag name: uppercase */
+  /** element tag name: uppercase for html elements, otherwise the local name */
   readonly tagName: string;
 
-  /** element local name: lowercase */
+  /** element local name: lowercase for html, case preserved for svg and mathml */
   readonly localName: string;
 
-  /** element attributes */
+  /**
+   * element attributes
+   *
+   * Attributes of foreign elements like `xlink:href` keep their prefix and
+   * namespace separate from their local name.
+   */
   attributes: Attribute[];
 
   /** element namespace */
@@ -191,35 +681,235 @@ export interface Element extends BaseParent, BaseChild {
   /** element source code location info, with attributes: available if location info is enabled */
   sourceCodeLocation?: ElementLocation | null;
 
-  /** has an attribute */
+  /**
+   * has an attribute by qualified name
+   *
+   * Like the browser, names are matched case insensitively for html elements,
+   * as are the names of the other qualified name methods.
+   */
   hasAttribute(attribute: string): boolean;
 
-  /** get an attribute */
+  /** get an attribute by qualified name */
   getAttribute(attribute: string): string | null;
 
-  /** set an attribute */
+  /**
+   * set an attribute by qualified name, html elements lowercase new names
+   *
+   * @throws DOMException `InvalidCharacterError` if the name is invalid
+   */
   setAttribute(attribute: string, value: string): void;
 
-  /** remove an attribute */
+  /** remove an attribute by qualified name */
   removeAttribute(attribute: string): void;
 
-  /** node id */
+  /**
+   * remove an attribute if present or add an empty one if not, unless force
+   * says which
+   *
+   * @returns if the attribute is now present
+   * @throws DOMException `InvalidCharacterError` if the name is invalid
+   */
+  toggleAttribute(attribute: string, force?: boolean): boolean;
+
+  /** the qualified names of all attributes in order */
+  getAttributeNames(): string[];
+
+  /** has an attribute by namespace and local name */
+  hasAttributeNS(namespace: string | null, localName: string): boolean;
+
+  /** get an attribute by namespace and local name */
+  getAttributeNS(namespace: string | null, localName: string): string | null;
+
+  /**
+   * set an attribute by namespace and qualified name, e.g. `xlink:href`
+   *
+   * @throws DOMException `InvalidCharacterError` if the name is invalid, and
+   * `NamespaceError` if the prefix doesn't fit the namespace
+   */
+  setAttributeNS(
+    namespace: string | null,
+    qualifiedName: string,
+    value: string
+  ): void;
+
+  /** remove an attribute by namespace and local name */
+  removeAttributeNS(namespace: string | null, localName: string): void;
+
+  /**
+   * if this element matches a css selector
+   *
+   * @throws SyntaxError if the selector is invalid or unsupported
+   */
+  matches(selector: string): boolean;
+
+  /**
+   * the closest inclusive ancestor that matches a css selector
+   *
+   * @throws SyntaxError if the selector is invalid or unsupported
+   */
+  closest(selector: string): Element | null;
+
+  /** the `id` attribute */
   id?: string;
 
-  /** class */
+  /** the `class` attribute */
   className: string;
 
-  /** src */
+  /** the classes of the `class` attribute */
+  readonly classList: DOMTokenList;
+
+  /**
+   * the `data-*` attributes keyed by camel case name
+   *
+   * @throws DOMException `SyntaxError` if a key with a dash followed by a
+   * lowercase letter is set
+   */
+  readonly dataset: DOMStringMap;
+
+  /** the inline style declared by the `style` attribute */
+  readonly style: CSSStyleDeclaration;
+
+  /** the `title` attribute */
+  title: string;
+
+  /** the `lang` attribute */
+  lang: string;
+
+  /** the `dir` attribute, `ltr`, `rtl`, `auto` or empty */
+  dir: string;
+
+  /** if the `hidden` attribute is present */
+  hidden: boolean;
+
+  /** the `href` of links */
+  href?: string;
+
+  /** the `rel` of links */
+  rel?: string;
+
+  /** the `target` of links and forms */
+  target?: string;
+
+  /** the `download` of links */
+  download?: string;
+
+  /** the `alt` of images */
+  alt?: string;
+
+  /** the `src` of embedded content, media and scripts */
   src?: string;
 
-  /** srcset */
+  /** the `srcset` of images and sources */
   srcset?: string;
 
-  /** the innerHTML */
+  /** the `sizes` of images, links and sources */
+  sizes?: string;
+
+  /** the `width` of images, inputs, sources and videos */
+  width?: number;
+
+  /** the `height` of images, inputs, sources and videos */
+  height?: number;
+
+  /** the `type` of elements that have one */
+  type?: string;
+
+  /** the `name` of elements that have one */
+  name?: string;
+
+  /** the `value` attribute of buttons, data and inputs */
+  value?: string;
+
+  /** the `placeholder` of inputs */
+  placeholder?: string;
+
+  /** if a form control has the `disabled` attribute */
+  disabled?: boolean;
+
+  /** if a form control has the `required` attribute */
+  required?: boolean;
+
+  /** if an input has the `readonly` attribute */
+  readOnly?: boolean;
+
+  /** if an input has the `multiple` attribute */
+  multiple?: boolean;
+
+  /** the `for` of labels and outputs */
+  htmlFor?: string;
+
+  /** the `action` of forms */
+  action?: string;
+
+  /** the `colspan` of table cells, between 1 and 1000 */
+  colSpan?: number;
+
+  /** the `rowspan` of table cells, between 0 and 65534 */
+  rowSpan?: number;
+
+  /** the `span` of table columns, between 1 and 1000 */
+  span?: number;
+
+  /** the `start` of ordered lists */
+  start?: number;
+
+  /** if an ordered list has the `reversed` attribute */
+  reversed?: boolean;
+
+  /** the `cite` of quotes and edits */
+  cite?: string;
+
+  /** the `datetime` of times and edits */
+  dateTime?: string;
+
+  /** the `poster` of videos */
+  poster?: string;
+
+  /** if media has the `controls` attribute */
+  controls?: boolean;
+
+  /** if media has the `autoplay` attribute */
+  autoplay?: boolean;
+
+  /** if media has the `loop` attribute */
+  loop?: boolean;
+
+  /** if a script has the `async` attribute */
+  async?: boolean;
+
+  /** if a script has the `defer` attribute */
+  defer?: boolean;
+
+  /** if a details or dialog element has the `open` attribute */
+  open?: boolean;
+
+  /** the `loading` of images and inline frames, `eager` or `lazy` */
+  loading?: string;
+
+  /** the innerHTML, setting parses it in the context of this element */
   innerHTML: string;
 
-  /** text content */
+  /**
+   * the html of this element, setting replaces it with the parsed html
+   *
+   * @throws DOMException `NoModificationAllowedError` if set when the parent
+   * is a document
+   */
+  outerHTML: string;
+
+  /** text content, setting replaces all children with a single text node */
   textContent: string;
+
+  /**
+   * the text as it would be rendered, without layout
+   *
+   * Unlike `textContent`, blocks and `<br>` are separated by line breaks,
+   * table cells by tabs, whitespace collapses outside of preformatted elements,
+   * and elements that aren't rendered, like `<script>` or `[hidden]`, are
+   * skipped. Setting replaces all children with text, where line breaks become
+   * `<br>` elements.
+   */
+  innerText: string;
 }
 
 /** comment node */
@@ -310,230 +1000,1120 @@ export type Node = ParentNode | ChildNode;
 // Implementation //
 // -------------- //
 
-/** depth first search */
-function* dfs(...queue: ChildNode[]): IterableIterator<ChildNode> {
-  queue.reverse();
-  let node;
-  while ((node = queue.pop())) {
+/** depth first search of the descendants of root */
+function* dfs(root: HasChildren): IterableIterator<ChildNode> {
+  let node = root.firstChild;
+  while (node) {
     yield node;
-    if (node.nodeType === NodeType.Element) {
-      queue.push(...node.childNodes.slice().reverse());
-    }
-  }
-}
-
-const selfClosing = new Set([
-  "area",
-  "base",
-  "br",
-  "col",
-  "embed",
-  "hr",
-  "img",
-  "input",
-  "link",
-  "meta",
-  "param",
-  "source",
-  "track",
-  "wbr",
-]);
-
-/** outer html string iterator */
-function* outerHtml(node: ChildNode): IterableIterator<string> {
-  if (node.nodeType === NodeType.Element) {
-    const tag = node.tagName.toLowerCase();
-    yield "<";
-    yield tag;
-    for (const { name, value } of node.attributes) {
-      yield " ";
-      yield name;
-      if (value) {
-        yield '="';
-        yield value.replace('"', "&quot;");
-        yield '"';
-      }
-    }
-    if (selfClosing.has(tag) && !node.childNodes.length) {
-      yield "/>";
+    if (node.nodeType === NodeType.Element && node.firstChild) {
+      node = node.firstChild;
     } else {
-      yield ">";
-      for (const child of node.childNodes) {
-        yield* outerHtml(child);
+      let pointer: ChildNode | null = node;
+      while (pointer && !pointer.nextSibling) {
+        const parent: ParentNode | null = pointer.parentNode;
+        pointer = parent === root ? null : (parent as Element | null);
       }
-      yield "</";
-      yield node.tagName.toLowerCase();
-      yield ">";
+      node = pointer && pointer.nextSibling;
     }
-  } else if (node.nodeType === NodeType.Comment) {
-    yield "<!--";
-    yield node.data;
-    yield "-->";
-  } else if (node.nodeType === NodeType.Text) {
-    yield node.value.replace(/[<&>]/g, (c) => {
-      if (c === "<") {
-        return "&lt;";
-      } else if (c === ">") {
-        return "&gt;";
-      } else {
-        return "&amp;";
-      }
-    });
-  } else {
-    yield "<!doctype ";
-    yield node.name;
-    yield ">";
   }
 }
 
-// any is necessary for mixins
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-type Constructor<T> = new (...args: any[]) => T;
+/** the qualified name of an attribute, e.g. `xlink:href` */
+function qualifiedName({ name, prefix }: Attribute): string {
+  return prefix ? `${prefix}:${name}` : name;
+}
 
-// NOTE once typescript supports class decorator mixing #4881 we should be able
-// to make this a bit cleaner
-/** parent mixin class */
-function ParentMixin<T extends Constructor<HasChildren>>(Base: T) {
-  return class Mixed extends Base implements BaseParent {
-    get firstChild(): ChildNode | null {
-      const [child] = this.childNodes;
-      return child ?? null;
+/** the element state needed to look up attributes */
+type Attributed = Pick<Element, "namespaceURI" | "attributes">;
+
+/** an attribute name as the element stores it, lowercase for html */
+function attributeName({ namespaceURI }: Attributed, name: string): string {
+  return namespaceURI === htmlNamespace
+    ? name.replace(/[A-Z]+/g, (c) => c.toLowerCase())
+    : name;
+}
+
+/** the index of an attribute by qualified name, or -1 */
+function attributeIndex(elem: Attributed, name: string): number {
+  const normalized = attributeName(elem, name);
+  return elem.attributes.findIndex(
+    (attr) => qualifiedName(attr) === normalized
+  );
+}
+
+/** the index of an attribute by namespace and local name, or -1 */
+function namespacedIndex(
+  { attributes }: Attributed,
+  namespace: string | null,
+  localName: string
+): number {
+  // NOTE the empty namespace is no namespace
+  const ns = namespace || undefined;
+  return attributes.findIndex(
+    (attr) => attr.namespace === ns && attr.name === localName
+  );
+}
+
+/** throw if name can't be the name of an attribute */
+function validateAttributeName(name: string): void {
+  if (!/^[^\t\n\f\r />=\0]+$/.test(name)) {
+    throw new DOMException(
+      `"${name}" is not a valid attribute name`,
+      "InvalidCharacterError"
+    );
+  }
+}
+
+/**
+ * the attribute for a namespace and qualified name
+ *
+ * @see {@link https://dom.spec.whatwg.org/#validate-and-extract}
+ */
+function namespacedAttribute(
+  namespace: string | null,
+  qualified: string,
+  value: string
+): Attribute {
+  validateAttributeName(qualified);
+  const colon = qualified.indexOf(":");
+  const prefix = colon === -1 ? undefined : qualified.slice(0, colon);
+  const name = colon === -1 ? qualified : qualified.slice(colon + 1);
+  const ns = namespace || undefined;
+  if (prefix !== undefined && !ns) {
+    throw new DOMException(
+      `the prefix "${prefix}" requires a namespace`,
+      "NamespaceError"
+    );
+  } else if (
+    prefix === "xml" &&
+    ns !== "http://www.w3.org/XML/1998/namespace"
+  ) {
+    throw new DOMException(
+      "the xml prefix requires the xml namespace",
+      "NamespaceError"
+    );
+  } else if (
+    (qualified === "xmlns" || prefix === "xmlns") !==
+    (ns === "http://www.w3.org/2000/xmlns/")
+  ) {
+    throw new DOMException(
+      "only xmlns attributes can have the xmlns namespace",
+      "NamespaceError"
+    );
+  }
+  return prefix
+    ? { name, namespace: ns, prefix, value }
+    : ns
+    ? { name, namespace: ns, value }
+    : { name, value };
+}
+
+/** the root of the tree a node is in */
+function rootOf(node: Node): Node {
+  let parent;
+  while ((parent = parentOf(node))) {
+    node = parent;
+  }
+  return node;
+}
+
+/** resolved tree adapter options */
+type Settings = Required<TreeAdapterOptions>;
+
+/** the internal bookkeeping of a document */
+interface DocumentState {
+  /** the options of the adapter that created this document */
+  readonly settings: Settings;
+
+  /** the connected elements of this document with each id */
+  readonly ids: Map<string, Set<Element>>;
+
+  /**
+   * the node iterators whose root belongs to this document
+   *
+   * They're held weakly so that unused ones can be collected.
+   */
+  readonly iterators: Set<WeakRef<Iter>>;
+}
+
+/** the document that owns node, which is itself for documents */
+function documentOf(node: Node): Document {
+  return node.nodeType === NodeType.Document ? node : node.ownerDocument;
+}
+
+/** the settings of the document that owns node */
+function settingsOf(node: Node): Settings {
+  return (documentOf(node) as Document & DocumentState).settings;
+}
+
+/** the first child element of parent with an html tag name */
+function childWithTag(parent: ParentNode, tagName: string): Element | null {
+  for (let child = parent.firstChild; child; child = child.nextSibling) {
+    if (child.nodeType === NodeType.Element && child.tagName === tagName) {
+      return child;
     }
+  }
+  return null;
+}
 
-    get children(): Element[] {
-      const res = [];
-      for (const child of this.childNodes) {
-        if (child.nodeType === NodeType.Element) {
-          res.push(child);
-        }
+/** the base url of document */
+function baseUrlOf(document: Document): string {
+  const { url } = (document as Document & DocumentState).settings;
+  // NOTE the parser puts bases in the head, so only looking there avoids
+  // walking the whole document every time a url is resolved
+  const root = childWithTag(document, "HTML");
+  const head = root && childWithTag(root, "HEAD");
+  for (let base = head?.firstChild; base; base = base.nextSibling) {
+    if (base.nodeType === NodeType.Element && base.tagName === "BASE") {
+      const href = base.getAttribute("href");
+      if (href !== null) {
+        return resolveUrl(href, url) ?? url;
       }
-      return res;
     }
+  }
+  return url;
+}
 
-    get firstElementChild(): Element | null {
-      for (const child of this.childNodes) {
-        if (child.nodeType === NodeType.Element) {
-          return child;
-        }
-      }
-      return null;
+/** the id of an element, ignoring namespaced attributes */
+function idOf({ attributes }: Attributed): string | null {
+  for (const attr of attributes) {
+    if (attr.name === "id" && !attr.namespace) {
+      return attr.value;
     }
+  }
+  return null;
+}
 
-    appendChild(this: ParentNode, child: ChildNode): void {
-      if (child.parentNode) {
-        const ind = child.parentNode.childNodes.indexOf(child);
-        if (ind !== -1) {
-          child.parentNode.childNodes.splice(ind, 1);
-        }
-      }
-      child.parentNode = this;
-      this.childNodes.push(child);
+/** add element to the id index of its document */
+function indexId(element: Element): void {
+  const id = idOf(element);
+  if (id) {
+    const { ids } = element.ownerDocument as Document & DocumentState;
+    let elements = ids.get(id);
+    if (!elements) {
+      elements = new Set();
+      ids.set(id, elements);
     }
+    elements.add(element);
+  }
+}
 
-    replaceChild(
-      this: ParentNode,
-      replacement: ChildNode,
-      child: ChildNode
-    ): void {
-      replacement.parentNode?.removeChild(replacement);
-      replacement.parentNode = this;
-      child.parentNode = null;
-      const index = this.childNodes.indexOf(child);
-      // NOTE this should throw an error, but since we do a hack by attaching a
-      // parent, this allows that to still work.
-      if (index === -1) {
-        this.childNodes.push(replacement);
-      } else {
-        this.childNodes[index] = replacement;
-      }
+/** remove element from the id index of its document */
+function unindexId(element: Element): void {
+  const id = idOf(element);
+  if (id) {
+    const { ids } = element.ownerDocument as Document & DocumentState;
+    const elements = ids.get(id);
+    elements?.delete(element);
+    if (elements?.size === 0) {
+      ids.delete(id);
     }
+  }
+}
 
-    removeChild(child: ChildNode): void {
-      const index = this.childNodes.indexOf(child);
-      child.parentNode = null;
-      if (index !== -1) {
-        this.childNodes.splice(index, 1);
+/** if node is in the tree of a document */
+function isConnected(node: Node): boolean {
+  return rootOf(node).nodeType === NodeType.Document;
+}
+
+/** node and its descendant elements, outside of template content */
+function* inclusiveElements(node: ChildNode): IterableIterator<Element> {
+  if (node.nodeType === NodeType.Element) {
+    yield node;
+    for (const child of dfs(node)) {
+      if (child.nodeType === NodeType.Element) {
+        yield child;
       }
     }
+  }
+}
 
-    getElementsByTagName(tag: string): Element[] {
-      const res = [];
-      const search = tag.toUpperCase();
-      for (const node of dfs(...this.childNodes)) {
-        if (
-          node.nodeType === NodeType.Element &&
-          (tag === "*" || node.tagName === search)
-        ) {
-          res.push(node);
-        }
+/** add node and its descendants to the id index if it's connected */
+function indexTree(node: ChildNode): void {
+  let connected: boolean | undefined;
+  for (const element of inclusiveElements(node)) {
+    if (idOf(element)) {
+      // NOTE this is linear in the depth, so it's only checked for ids
+      connected ??= isConnected(node);
+      if (!connected) {
+        return;
       }
-      return res;
+      indexId(element);
     }
-  };
+  }
 }
 
-/** mixin for child elements */
-function ChildMixin<T extends Constructor<HasParent>>(Base: T) {
-  return class Mixed extends Base implements BaseChild {
-    get ownerDocument(): Document {
-      let pointer = this.parentNode;
-      while (pointer && pointer.nodeType === NodeType.Element) {
-        pointer = pointer.parentNode;
-      }
-      if (!pointer) {
-        throw new Error("top level parent was null");
-      } else if (pointer.nodeType === NodeType.DocumentFragment) {
-        throw new Error("top level element was a fragment");
-      } else {
-        return pointer;
-      }
+/** remove node and its descendants from the id index */
+function unindexTree(node: ChildNode): void {
+  const { ids } = node.ownerDocument as Document & DocumentState;
+  if (ids.size) {
+    for (const element of inclusiveElements(node)) {
+      unindexId(element);
     }
+  }
+}
 
-    get nextSibling(): ChildNode | null {
-      if (!this.parentNode) return null;
-      let foundThis = false;
-      for (const child of this.parentNode.childNodes) {
-        if (foundThis) {
-          return child;
-          // NOTE due to ChildNode being intentionally restrictive, there's no
-          // way to tell typescript that the "final" class will be a child
-          // node.
-        } else if (child === (this as unknown as ChildNode)) {
-          foundThis = true;
-        }
+/** update what depends on the attributes of element after they change */
+function attributesChanged(element: Element): void {
+  if (isConnected(element)) {
+    indexId(element);
+  }
+  if (settingsOf(element).live) {
+    mutated();
+  }
+}
+
+/** the first element in tree order with id in the tree rooted at root */
+function elementById(
+  root: Document | DocumentFragment,
+  id: string
+): Element | null {
+  if (root.nodeType === NodeType.DocumentFragment) {
+    // NOTE fragments aren't connected, so they aren't indexed
+    for (const node of dfs(root)) {
+      if (node.nodeType === NodeType.Element && idOf(node) === id) {
+        return node;
       }
-      return null;
     }
-
-    get nextElementSibling(): Element | null {
-      if (!this.parentNode) return null;
-      let foundThis = false;
-      for (const child of this.parentNode.childNodes) {
-        if (foundThis && child.nodeType === NodeType.Element) {
-          return child;
-          // NOTE due to ChildNode being intentionally restrictive, there's no
-          // way to tell typescript that the "final" class will be a child
-          // node.
-        } else if (child === (this as unknown as ChildNode)) {
-          foundThis = true;
-        }
+    return null;
+  }
+  const matches = (root as Document & DocumentState).ids.get(id) ?? new Set();
+  if (matches.size > 1) {
+    // NOTE duplicate ids are rare, so only then do we walk the tree for order
+    for (const node of dfs(root)) {
+      if (node.nodeType === NodeType.Element && matches.has(node)) {
+        return node;
       }
-      return null;
     }
-  };
+  }
+  const [match = null] = matches;
+  return match;
 }
 
-/** document implementation */
-const Doc = ParentMixin(
-  class Doc {
-    readonly nodeName = "#document";
-    readonly nodeType = NodeType.Document;
+/** the internal bookkeeping of a parent */
+interface ParentState extends HasChildren {
+  /** an array of the children, null when it needs to be rebuilt */
+  childCache: ChildNode[] | null;
+
+  /** the cached text content of the subtree */
+  textCache: string | null;
+
+  /** the cached descendant elements, keyed by tag name or `*` */
+  tagCache: Map<string, Element[]> | null;
+
+  /** the live `childNodes`, created on demand */
+  liveChildNodes: NodeList | null;
+
+  /** the live `children`, created on demand */
+  liveChildren: HTMLCollection | null;
+}
+
+/** clear the cached subtree results of parent and all of its ancestors */
+function invalidate(parent: ParentNode | null): void {
+  if (!parent) {
+    return;
+  }
+  const { cache, live } = settingsOf(parent);
+  if (live) {
+    mutated();
+  }
+  if (!cache) {
+    return;
+  }
+  for (
+    let pointer: ParentNode | null = parent;
+    pointer;
+    pointer = parentOf(pointer)
+  ) {
+    const state = pointer as ParentNode & ParentState;
+    // NOTE caches are built from the caches of the children, so if this has
+    // none, neither do its ancestors
+    if (state.textCache === null && state.tagCache === null) {
+      return;
+    }
+    state.textCache = null;
+    state.tagCache = null;
+  }
+}
+
+/** the concatenated text of all descendant text nodes */
+function textOf(parent: ParentNode): string {
+  const state = parent as ParentNode & ParentState;
+  if (!settingsOf(parent).cache) {
+    const vals = [];
+    for (const node of dfs(parent)) {
+      if (node.nodeType === NodeType.Text) {
+        vals.push(node.value);
+      }
+    }
+    return vals.join("");
+  } else if (state.textCache === null) {
+    // NOTE we build this from the children so their caches get reused
+    const vals = [];
+    for (let child = parent.firstChild; child; child = child.nextSibling) {
+      if (child.nodeType === NodeType.Text) {
+        vals.push(child.value);
+      } else if (child.nodeType === NodeType.Element) {
+        vals.push(textOf(child));
+      }
+    }
+    state.textCache = vals.join("");
+  }
+  return state.textCache;
+}
+
+/** if element has a qualified name, ignoring case for html elements */
+function hasTagName(element: Element, tag: string): boolean {
+  return element.namespaceURI === htmlNamespace
+    ? element.localName === tag.toLowerCase()
+    : element.localName === tag;
+}
+
+/** all descendant elements with a qualified name, or `*` for any */
+function elementsOf(parent: ParentNode, tag: string): Element[] {
+  const state = parent as ParentNode & ParentState;
+  if (!settingsOf(parent).cache) {
+    const res = [];
+    for (const node of dfs(parent)) {
+      if (
+        node.nodeType === NodeType.Element &&
+        (tag === "*" || hasTagName(node, tag))
+      ) {
+        res.push(node);
+      }
+    }
+    return res;
+  }
+  const cache = (state.tagCache ??= new Map<string, Element[]>());
+  let res = cache.get(tag);
+  if (!res && tag === "*") {
+    // NOTE we build this from the children so their caches get reused
+    res = [];
+    for (let child = parent.firstChild; child; child = child.nextSibling) {
+      if (child.nodeType === NodeType.Element) {
+        res.push(child);
+        for (const elem of elementsOf(child, "*")) {
+          res.push(elem);
+        }
+      }
+    }
+    cache.set(tag, res);
+  } else if (!res) {
+    res = elementsOf(parent, "*").filter((elem) => hasTagName(elem, tag));
+    cache.set(tag, res);
+  }
+  return res;
+}
+
+/** if node is actually in its parent's list of children */
+function isLinked(node: ChildNode): boolean {
+  const { parentNode, previousSibling } = node;
+  // NOTE the adapter api allows setting parents without linking children
+  return previousSibling
+    ? previousSibling.nextSibling === node
+    : parentNode?.firstChild === node;
+}
+
+/** remove node from its parent's list of children */
+function unlink(node: ChildNode): void {
+  const parent = node.parentNode as (ParentNode & ParentState) | null;
+  if (parent && isLinked(node)) {
+    const { iterators } = node.ownerDocument as Document & DocumentState;
+    removing(node, iterators);
+    invalidate(parent);
+    unindexTree(node);
+    const { previousSibling, nextSibling } = node;
+    if (previousSibling) {
+      previousSibling.nextSibling = nextSibling;
+    } else {
+      parent.firstChild = nextSibling;
+    }
+    if (nextSibling) {
+      nextSibling.previousSibling = previousSibling;
+    } else {
+      parent.lastChild = previousSibling;
+    }
+    // NOTE arrays that were handed out are never modified
+    parent.childCache = null;
+  }
+  node.parentNode = null;
+  node.previousSibling = null;
+  node.nextSibling = null;
+}
+
+/**
+ * insert node into parent before reference
+ *
+ * If reference is null, or isn't a child of parent, node is appended instead.
+ */
+function link(
+  parent: ParentNode,
+  node: ChildNode,
+  reference: ChildNode | null
+): void {
+  unlink(node);
+  adopt(node, documentOf(parent));
+  invalidate(parent);
+  const list = parent as ParentNode & ParentState;
+  const next =
+    reference && reference.parentNode === parent && isLinked(reference)
+      ? reference
+      : null;
+  const prev = next ? next.previousSibling : parent.lastChild;
+  node.parentNode = parent;
+  node.previousSibling = prev;
+  node.nextSibling = next;
+  if (prev) {
+    prev.nextSibling = node;
+  } else {
+    parent.firstChild = node;
+  }
+  if (next) {
+    next.previousSibling = node;
+  } else {
+    parent.lastChild = node;
+  }
+  list.childCache = null;
+  indexTree(node);
+}
+
+/** make document the owner of node and its descendants */
+function adopt(node: ChildNode | DocumentFragment, document: Document): void {
+  if (node.ownerDocument === document) {
+    return;
+  }
+  const previous = node.ownerDocument as Document & DocumentState;
+  // NOTE adopted nodes are never connected, so they aren't indexed
+  node.ownerDocument = document;
+  // NOTE node iterators follow their root to its new document
+  for (const ref of previous.iterators) {
+    if (ref.deref()?.root === node) {
+      previous.iterators.delete(ref);
+      (document as Document & DocumentState).iterators.add(ref);
+    }
+  }
+  if (
+    node.nodeType === NodeType.Element ||
+    node.nodeType === NodeType.DocumentFragment
+  ) {
+    // NOTE the new document may not cache, so nothing can be kept
+    const state = node as ParentNode & ParentState;
+    state.textCache = null;
+    state.tagCache = null;
+    const { content } = node as Partial<Template>;
+    if (content) {
+      adopt(content, document);
+    }
+    for (let child = node.firstChild; child; child = child.nextSibling) {
+      adopt(child, document);
+    }
+  }
+}
+
+/** remove all of parent's children */
+function removeChildren(parent: ParentNode): void {
+  while (parent.firstChild) {
+    unlink(parent.firstChild);
+  }
+}
+
+/** if node is linked in as one of parent's children */
+function isChildOf(node: ChildNode, parent: ParentNode): boolean {
+  return node.parentNode === parent && isLinked(node);
+}
+
+function hierarchyError(message: string): DOMException {
+  return new DOMException(message, "HierarchyRequestError");
+}
+
+function notFoundError(): DOMException {
+  return new DOMException(
+    "the node is not a child of this node",
+    "NotFoundError"
+  );
+}
+
+/**
+ * throw if node can't be inserted into parent before child, or in place of
+ * child if replacing
+ *
+ * @see {@link https://dom.spec.whatwg.org/#concept-node-ensure-pre-insertion-validity}
+ */
+function validateInsertion(
+  parent: ParentNode,
+  node: ChildNode | DocumentFragment,
+  child: ChildNode | null,
+  replacing: boolean
+): void {
+  const { strict } = settingsOf(parent);
+  if (isInclusiveAncestor(node, parent)) {
+    throw hierarchyError("the new child contains the parent");
+  } else if (strict && child && !isChildOf(child, parent)) {
+    // NOTE without strict, this is handled by the caller
+    throw notFoundError();
+  } else if (
+    node.nodeType === NodeType.DocumentType &&
+    parent.nodeType !== NodeType.Document
+  ) {
+    throw hierarchyError("only documents can have doctypes as children");
+  }
+  if (parent.nodeType !== NodeType.Document) {
+    return;
+  }
+  let element = node.nodeType === NodeType.Element;
+  if (node.nodeType === NodeType.Text) {
+    throw hierarchyError("documents can't have text as children");
+  } else if (node.nodeType === NodeType.DocumentFragment) {
+    let elements = 0;
+    for (let frag = node.firstChild; frag; frag = frag.nextSibling) {
+      if (frag.nodeType === NodeType.Text) {
+        throw hierarchyError("documents can't have text as children");
+      } else if (frag.nodeType === NodeType.Element) {
+        elements++;
+      }
+    }
+    if (elements > 1) {
+      throw hierarchyError("documents can only have one element");
+    }
+    element = elements === 1;
+  }
+  const doctype = node.nodeType === NodeType.DocumentType;
+  let following = false;
+  for (
+    let sibling = parent.firstChild;
+    sibling;
+    sibling = sibling.nextSibling
+  ) {
+    if (sibling === child) {
+      following = true;
+      if (replacing) {
+        continue;
+      }
+    }
+    if (sibling.nodeType === NodeType.Element && element) {
+      throw hierarchyError("documents can only have one element");
+    } else if (sibling.nodeType === NodeType.Element && doctype && !following) {
+      throw hierarchyError("doctypes must come before the document element");
+    } else if (sibling.nodeType === NodeType.DocumentType && doctype) {
+      throw hierarchyError("documents can only have one doctype");
+    } else if (
+      sibling.nodeType === NodeType.DocumentType &&
+      element &&
+      following
+    ) {
+      throw hierarchyError("the document element must come after the doctype");
+    }
+  }
+}
+
+/** insert node, or the children of a fragment, into parent before child */
+function insert(
+  parent: ParentNode,
+  node: ChildNode | DocumentFragment,
+  child: ChildNode | null
+): void {
+  if (node.nodeType === NodeType.DocumentFragment) {
+    while (node.firstChild) {
+      link(parent, node.firstChild, child);
+    }
+  } else {
+    link(parent, node, child);
+  }
+}
+
+/**
+ * insert node into parent before child after validating
+ *
+ * @see {@link https://dom.spec.whatwg.org/#concept-node-pre-insert}
+ */
+function preInsert(
+  parent: ParentNode,
+  node: ChildNode | DocumentFragment,
+  child: ChildNode | null
+): void {
+  validateInsertion(parent, node, child, false);
+  insert(parent, node, child === node ? node.nextSibling : child);
+}
+
+/**
+ * replace child of parent with node after validating
+ *
+ * @see {@link https://dom.spec.whatwg.org/#concept-node-replace}
+ */
+function replace(
+  parent: ParentNode,
+  node: ChildNode | DocumentFragment,
+  child: ChildNode
+): void {
+  validateInsertion(parent, node, child, true);
+  if (isChildOf(child, parent)) {
+    const next = child.nextSibling;
+    unlink(child);
+    insert(parent, node, next === node ? node.nextSibling : next);
+  } else {
+    // NOTE without strict this appends like it always has
+    insert(parent, node, null);
+  }
+}
+
+/** a single node from nodes and strings, wrapping several in a fragment */
+function toNode(
+  parent: ParentNode,
+  nodes: readonly (ChildNode | DocumentFragment | string)[]
+): ChildNode | DocumentFragment {
+  const owner = documentOf(parent);
+  const converted = nodes.map((node) =>
+    typeof node === "string" ? new Txt(owner, node) : node
+  );
+  if (converted.length === 1) {
+    return converted[0];
+  }
+  const frag = new Frag(owner);
+  for (const node of converted) {
+    preInsert(frag, node, null);
+  }
+  return frag;
+}
+
+// any is necessary for mixins
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Constructor<T> = new (...args: any[]) => T;
+
+/**
+ * this as the node it will be
+ *
+ * Getters, setters and constructors can't declare the type of this like
+ * methods can, and the classes of mixins don't know the final node, so they
+ * cast with this.
+ */
+function self<T extends Node>(node: object): T {
+  return node as T;
+}
+
+// NOTE once typescript supports class decorator mixing #4881 we should be able
+// to make this a bit cleaner
+/** the children of parent, cached until they change */
+function childNodesOf(parent: ParentNode): ChildNode[] {
+  const state = parent as ParentNode & ParentState;
+  if (!state.childCache) {
+    const res = [];
+    for (let child = parent.firstChild; child; child = child.nextSibling) {
+      res.push(child);
+    }
+    state.childCache = res;
+  }
+  return state.childCache;
+}
+
+/** the children of parent that are elements */
+function elementChildrenOf(parent: ParentNode): Element[] {
+  const res = [];
+  for (let child = parent.firstChild; child; child = child.nextSibling) {
+    if (child.nodeType === NodeType.Element) {
+      res.push(child);
+    }
+  }
+  return res;
+}
+
+/** a live collection of elements in live mode, otherwise the elements now */
+function collect(parent: ParentNode, elements: () => Element[]): Element[] {
+  return settingsOf(parent).live
+    ? (createHTMLCollection(elements) as unknown as Element[])
+    : elements();
+}
+
+/** parent mixin class */
+function ParentMixin<
+  T extends Constructor<HasChildren & Pick<BaseNode, "baseURI">>
+>(Base: T) {
+  return class Mixed extends Base implements BaseParent, ParentState {
+    childCache: ChildNode[] | null = null;
+    textCache: string | null = null;
+    tagCache: Map<string, Element[]> | null = null;
+    liveChildNodes: NodeList | null = null;
+    liveChildren: HTMLCollection | null = null;
+
+    get childNodes(): readonly ChildNode[] {
+      const parent = self<ParentNode>(this);
+      if (settingsOf(parent).live) {
+        return (this.liveChildNodes ??= createNodeList(() =>
+          childNodesOf(parent)
+        ));
+      }
+      return childNodesOf(parent);
+    }
+
+    get children(): Element[] {
+      const parent = self<ParentNode>(this);
+      if (settingsOf(parent).live) {
+        this.liveChildren ??= createHTMLCollection(() =>
+          elementChildrenOf(parent)
+        );
+        return this.liveChildren as unknown as Element[];
+      }
+      return elementChildrenOf(parent);
+    }
+
+    get firstElementChild(): Element | null {
+      let child = this.firstChild;
+      while (child && child.nodeType !== NodeType.Element) {
+        child = child.nextSibling;
+      }
+      return child;
+    }
+
+    get lastElementChild(): Element | null {
+      let child = this.lastChild;
+      while (child && child.nodeType !== NodeType.Element) {
+        child = child.previousSibling;
+      }
+      return child;
+    }
+
+    get childElementCount(): number {
+      let count = 0;
+      for (let child = this.firstChild; child; child = child.nextSibling) {
+        if (child.nodeType === NodeType.Element) {
+          count++;
+        }
+      }
+      return count;
+    }
+
+    get isConnected(): boolean {
+      const root = rootOf(self<ParentNode>(this));
+      return root.nodeType === NodeType.Document;
+    }
+
+    hasChildNodes(): boolean {
+      return this.firstChild !== null;
+    }
+
+    contains(this: ParentNode, other: Node | null): boolean {
+      return isInclusiveAncestor(this, other);
+    }
+
+    getRootNode(this: ParentNode): Node {
+      return rootOf(this);
+    }
+
+    cloneNode(
+      deep = false,
+      { sourceCodeLocation = false }: CloneOptions = {}
+    ): this {
+      const options = {
+        owner: documentOf(this as unknown as ParentNode),
+        locations: sourceCodeLocation,
+      };
+      // NOTE we can't declare this for a method that returns this
+      return copyNode(
+        this as unknown as ParentNode,
+        deep,
+        options
+      ) as unknown as this;
+    }
+
+    isEqualNode(this: ParentNode, other: Node | null): boolean {
+      return !!other && isEqual(this, other);
+    }
+
+    appendChild(this: ParentNode, child: ChildNode | DocumentFragment): void {
+      preInsert(this, child, null);
+    }
+
+    insertBefore(
+      this: ParentNode,
+      node: ChildNode | DocumentFragment,
+      child: ChildNode | null
+    ): void {
+      preInsert(this, node, child);
+    }
+
+    replaceChild(
+      this: ParentNode,
+      replacement: ChildNode | DocumentFragment,
+      child: ChildNode
+    ): void {
+      replace(this, replacement, child);
+    }
+
+    removeChild(this: ParentNode, child: ChildNode): void {
+      if (settingsOf(this).strict && !isChildOf(child, this)) {
+        throw notFoundError();
+      } else if (child.parentNode === this) {
+        unlink(child);
+      }
+    }
+
+    prepend(
+      this: ParentNode,
+      ...nodes: (ChildNode | DocumentFragment | string)[]
+    ): void {
+      preInsert(this, toNode(this, nodes), this.firstChild);
+    }
+
+    append(
+      this: ParentNode,
+      ...nodes: (ChildNode | DocumentFragment | string)[]
+    ): void {
+      preInsert(this, toNode(this, nodes), null);
+    }
+
+    replaceChildren(
+      this: ParentNode,
+      ...nodes: (ChildNode | DocumentFragment | string)[]
+    ): void {
+      const node = toNode(this, nodes);
+      validateInsertion(this, node, null, false);
+      removeChildren(this);
+      insert(this, node, null);
+    }
+
+    getElementsByTagName(this: ParentNode, tag: string): Element[] {
+      // NOTE we copy so that callers can't modify the cache
+      return collect(this, () => elementsOf(this, tag).slice());
+    }
+
+    getElementsByClassName(this: ParentNode, classNames: string): Element[] {
+      const names = classNames.split(/[\t\n\f\r ]+/).filter((name) => name);
+      return collect(this, () =>
+        names.length
+          ? elementsOf(this, "*").filter((elem) => {
+              const classes = (elem.getAttribute("class") ?? "").split(
+                /[\t\n\f\r ]+/
+              );
+              return names.every((name) => classes.includes(name));
+            })
+          : []
+      );
+    }
+
+    getElementsByName(this: ParentNode, name: string): Element[] {
+      return collect(this, () =>
+        elementsOf(this, "*").filter(
+          (elem) =>
+            elem.namespaceURI === htmlNamespace &&
+            elem.getAttribute("name") === name
+        )
+      );
+    }
+
+    querySelector(selector: string): Element | null {
+      const selectors = compileSelector(selector);
+      for (const node of dfs(this)) {
+        if (
+          node.nodeType === NodeType.Element &&
+          matchesSelector(node, selectors)
+        ) {
+          return node;
+        }
+      }
+      return null;
+    }
+
+    querySelectorAll(selector: string): Element[] {
+      const selectors = compileSelector(selector);
+      const res = [];
+      for (const node of dfs(this)) {
+        if (
+          node.nodeType === NodeType.Element &&
+          matchesSelector(node, selectors)
+        ) {
+          res.push(node);
+        }
+      }
+      return res;
+    }
+  };
+}
+
+/** mixin for child elements */
+function ChildMixin<
+  T extends Constructor<HasParent & Pick<BaseChild, "ownerDocument">>
+>(Base: T) {
+  return class Mixed extends Base implements BaseChild {
+    previousSibling: ChildNode | null = null;
+    nextSibling: ChildNode | null = null;
+
+    get parentElement(): Element | null {
+      const parent = this.parentNode;
+      return parent?.nodeType === NodeType.Element ? parent : null;
+    }
+
+    get isConnected(): boolean {
+      return this.getRootNode().nodeType === NodeType.Document;
+    }
+
+    get baseURI(): string {
+      return baseUrlOf(this.ownerDocument);
+    }
+
+    hasChildNodes(): boolean {
+      return false;
+    }
+
+    // NOTE due to ChildNode being intentionally restrictive, there's no way to
+    // tell typescript that the "final" class will be a child node.
+    contains(other: Node | null): boolean {
+      return isInclusiveAncestor(this as unknown as ChildNode, other);
+    }
+
+    getRootNode(): Node {
+      return rootOf(this as unknown as ChildNode);
+    }
+
+    cloneNode(
+      deep = false,
+      { sourceCodeLocation = false }: CloneOptions = {}
+    ): this {
+      const options = {
+        owner: (this as unknown as ChildNode).ownerDocument,
+        locations: sourceCodeLocation,
+      };
+      return copyNode(
+        this as unknown as ChildNode,
+        deep,
+        options
+      ) as unknown as this;
+    }
+
+    isEqualNode(other: Node | null): boolean {
+      return !!other && isEqual(this as unknown as ChildNode, other);
+    }
+
+    // NOTE nodes that claim a parent without being one of its children are
+    // treated as detached
+    remove(): void {
+      const node = this as unknown as ChildNode;
+      if (isLinked(node)) {
+        unlink(node);
+      }
+    }
+
+    before(...nodes: (ChildNode | DocumentFragment | string)[]): void {
+      const { parentNode } = this;
+      if (parentNode && isLinked(this as unknown as ChildNode)) {
+        const excluded = new Set(nodes);
+        let prev = this.previousSibling;
+        while (prev && excluded.has(prev)) {
+          prev = prev.previousSibling;
+        }
+        const node = toNode(parentNode, nodes);
+        const next = prev ? prev.nextSibling : parentNode.firstChild;
+        preInsert(parentNode, node, next);
+      }
+    }
+
+    after(...nodes: (ChildNode | DocumentFragment | string)[]): void {
+      const { parentNode } = this;
+      if (parentNode && isLinked(this as unknown as ChildNode)) {
+        const excluded = new Set(nodes);
+        let next = this.nextSibling;
+        while (next && excluded.has(next)) {
+          next = next.nextSibling;
+        }
+        preInsert(parentNode, toNode(parentNode, nodes), next);
+      }
+    }
+
+    replaceWith(...nodes: (ChildNode | DocumentFragment | string)[]): void {
+      const { parentNode } = this;
+      const child = this as unknown as ChildNode;
+      if (parentNode && isLinked(child)) {
+        const excluded = new Set(nodes);
+        let next = this.nextSibling;
+        while (next && excluded.has(next)) {
+          next = next.nextSibling;
+        }
+        const node = toNode(parentNode, nodes);
+        // NOTE converting nodes may have moved this node
+        if (child.parentNode === parentNode) {
+          replace(parentNode, node, child);
+        } else {
+          preInsert(parentNode, node, next);
+        }
+      }
+    }
+
+    get previousElementSibling(): Element | null {
+      let sibling = this.previousSibling;
+      while (sibling && sibling.nodeType !== NodeType.Element) {
+        sibling = sibling.previousSibling;
+      }
+      return sibling;
+    }
+
+    get nextElementSibling(): Element | null {
+      let sibling = this.nextSibling;
+      while (sibling && sibling.nodeType !== NodeType.Element) {
+        sibling = sibling.nextSibling;
+      }
+      return sibling;
+    }
+  };
+}
+
+/** mixin for the properties that reflect attributes */
+function ReflectMixin<T extends Constructor<object>>(Base: T) {
+  class Mixed extends Base {}
+  defineReflections(Mixed.prototype as object);
+  return Mixed as unknown as T & Constructor<Pick<Element, ReflectedProperty>>;
+}
+
+/** document implementation */
+const Doc = ParentMixin(
+  class Doc {
+    readonly nodeName = "#document";
+    readonly nodeType = NodeType.Document;
     mode: DocumentMode = "no-quirks";
     readonly textContent = null;
-    childNodes: ChildNode[] = [];
+    firstChild: ChildNode | null = null;
+    lastChild: ChildNode | null = null;
+
+    readonly ids = new Map<string, Set<Element>>();
+
+    readonly iterators = new Set<WeakRef<Iter>>();
+
+    constructor(readonly settings: Settings) {}
+
+    get URL(): string {
+      return this.settings.url;
+    }
+
+    get documentURI(): string {
+      return this.settings.url;
+    }
+
+    get baseURI(): string {
+      return baseUrlOf(this as unknown as Document);
+    }
+
+    getElementById(this: Document, id: string): Element | null {
+      return elementById(this, id);
+    }
+
+    createTreeWalker(
+      root: Node,
+      whatToShow: number = NodeFilter.SHOW_ALL,
+      filter: NodeFilter | null = null
+    ): TreeWalker {
+      return new Walker(root, whatToShow >>> 0, filter);
+    }
+
+    createNodeIterator(
+      root: Node,
+      whatToShow: number = NodeFilter.SHOW_ALL,
+      filter: NodeFilter | null = null
+    ): NodeIterator {
+      const iterator = new Iter(root, whatToShow >>> 0, filter);
+      const { iterators } = documentOf(root) as Document & DocumentState;
+      iterators.add(new WeakRef(iterator));
+      return iterator;
+    }
 
     get documentElement(): Element {
-      for (const node of this.childNodes) {
+      for (let node = this.firstChild; node; node = node.nextSibling) {
         if (node.nodeType === NodeType.Element && node.tagName === "HTML") {
           return node;
         }
@@ -542,7 +2122,8 @@ const Doc = ParentMixin(
     }
 
     get head(): Element {
-      for (const node of this.documentElement.childNodes) {
+      const html = this.documentElement;
+      for (let node = html.firstChild; node; node = node.nextSibling) {
         if (node.nodeType === NodeType.Element && node.tagName === "HEAD") {
           return node;
         }
@@ -551,7 +2132,8 @@ const Doc = ParentMixin(
     }
 
     get body(): Element {
-      for (const node of this.documentElement.childNodes) {
+      const html = this.documentElement;
+      for (let node = html.firstChild; node; node = node.nextSibling) {
         if (node.nodeType === NodeType.Element && node.tagName === "BODY") {
           return node;
         }
@@ -561,7 +2143,8 @@ const Doc = ParentMixin(
 
     get title(): string {
       try {
-        for (const child of this.head.childNodes) {
+        const head = this.head;
+        for (let child = head.firstChild; child; child = child.nextSibling) {
           if (
             child.nodeType === NodeType.Element &&
             child.tagName === "TITLE"
@@ -576,147 +2159,430 @@ const Doc = ParentMixin(
     }
 
     createElement(this: Document, tagName: string): Element {
-      const elem = new Elem(tagName, "http://www.w3.org/1999/xhtml");
-      // NOTE we set this so that the new node has access to it's root document
-      // to continue using document functions
-      elem.parentNode = this;
-      return elem;
+      return this.createElementNS(htmlNamespace, tagName.toLowerCase());
+    }
+
+    createElementNS(
+      this: Document,
+      namespaceURI: Namespace,
+      qualifiedName: string
+    ): Element {
+      return new Elem(this, qualifiedName, namespaceURI);
+    }
+
+    createTextNode(this: Document, data: string): TextNode {
+      return new Txt(this, data);
+    }
+
+    createComment(this: Document, data: string): CommentNode {
+      return new Comm(this, data);
+    }
+
+    createDocumentFragment(this: Document): DocumentFragment {
+      return new Frag(this);
+    }
+
+    importNode<T extends ChildNode | DocumentFragment>(
+      this: Document,
+      node: T,
+      deep = false
+    ): T {
+      return copyNode(node, deep, { owner: this, locations: false }) as T;
+    }
+
+    adoptNode<T extends ChildNode | DocumentFragment>(
+      this: Document,
+      node: T
+    ): T {
+      if (node.nodeType !== NodeType.DocumentFragment) {
+        unlink(node);
+      }
+      adopt(node, this);
+      return node;
     }
   }
 );
 
+/** how nodes are copied */
+interface CopyOptions {
+  /** the document that owns the copies */
+  owner: Document;
+  /** if source code locations are copied */
+  locations: boolean;
+}
+
+/** a copy of node, and its descendants if deep, that shares no state */
+function copyNode(node: Node, deep: boolean, options: CopyOptions): Node {
+  const { owner, locations } = options;
+  let copy: Node;
+  if (node.nodeType === NodeType.Document) {
+    const doc = new Doc((node as Document & DocumentState).settings);
+    doc.mode = node.mode;
+    // NOTE the children of a copied document belong to the copy
+    options = { ...options, owner: doc };
+    copy = doc;
+  } else if (node.nodeType === NodeType.DocumentFragment) {
+    copy = new Frag(owner);
+  } else if (node.nodeType === NodeType.Element) {
+    const attributes = node.attributes.map((attr) => ({ ...attr }));
+    const elem = new Elem(owner, node.localName, node.namespaceURI, attributes);
+    const { content } = node as Partial<Template>;
+    // NOTE like the browser, template content is only copied when deep
+    if (content && deep) {
+      const frag = copyNode(content, deep, options);
+      (elem as unknown as Template).content = frag as DocumentFragment;
+    }
+    copy = elem;
+  } else if (node.nodeType === NodeType.Text) {
+    copy = new Txt(owner, node.value);
+  } else if (node.nodeType === NodeType.Comment) {
+    copy = new Comm(owner, node.data);
+  } else {
+    copy = new DocType(owner, node.name, node.publicId, node.systemId);
+  }
+  if (locations && node.sourceCodeLocation) {
+    // NOTE locations are plain data, so this copies them by value
+    copy.sourceCodeLocation = JSON.parse(
+      JSON.stringify(node.sourceCodeLocation)
+    ) as ElementLocation;
+  }
+  if (
+    deep &&
+    (node.nodeType === NodeType.Document ||
+      node.nodeType === NodeType.DocumentFragment ||
+      node.nodeType === NodeType.Element)
+  ) {
+    for (let child = node.firstChild; child; child = child.nextSibling) {
+      link(
+        copy as ParentNode,
+        copyNode(child, deep, options) as ChildNode,
+        null
+      );
+    }
+  }
+  return copy;
+}
+
+/** if two nodes are structurally equal */
+function isEqual(node: Node, other: Node): boolean {
+  if (node.nodeType !== other.nodeType) {
+    return false;
+  } else if (node.nodeType === NodeType.DocumentType) {
+    const { name, publicId, systemId } = other as DocumentType;
+    return (
+      node.name === name &&
+      node.publicId === publicId &&
+      node.systemId === systemId
+    );
+  } else if (node.nodeType === NodeType.Element) {
+    const { localName, namespaceURI, attributes } = other as Element;
+    if (
+      node.localName !== localName ||
+      node.namespaceURI !== namespaceURI ||
+      node.attributes.length !== attributes.length ||
+      // NOTE attribute order doesn't matter
+      !node.attributes.every((attr) =>
+        attributes.some(
+          ({ name, namespace, value }) =>
+            attr.name === name &&
+            attr.namespace === namespace &&
+            attr.value === value
+        )
+      )
+    ) {
+      return false;
+    }
+  } else if (node.nodeType === NodeType.Text) {
+    return node.value === (other as TextNode).value;
+  } else if (node.nodeType === NodeType.Comment) {
+    return node.data === (other as CommentNode).data;
+  }
+  let child = node.firstChild;
+  let otherChild = (other as ParentNode).firstChild;
+  while (child && otherChild) {
+    if (!isEqual(child, otherChild)) {
+      return false;
+    }
+    child = child.nextSibling;
+    otherChild = otherChild.nextSibling;
+  }
+  return child === otherChild;
+}
+
 /** document fragment implementation */
 const Frag = ParentMixin(
   class Frag {
     readonly nodeName = "#document-fragment";
     readonly nodeType = NodeType.DocumentFragment;
-    childNodes: ChildNode[] = [];
+    firstChild: ChildNode | null = null;
+    lastChild: ChildNode | null = null;
+
+    constructor(public ownerDocument: Document) {}
+
+    get baseURI(): string {
+      return baseUrlOf(this.ownerDocument);
+    }
+
+    getElementById(this: DocumentFragment, id: string): Element | null {
+      return elementById(this, id);
+    }
   }
 );
 
 /** element implementation */
 const Elem = ParentMixin(
   ChildMixin(
-    class Elem {
-      readonly nodeType = NodeType.Element;
-      parentNode: ParentNode | null = null;
-      childNodes: ChildNode[] = [];
-      // NOTE ES2020 #private members don't work with mixins
-      private _src?: string;
-      private _srcset?: string;
+    ReflectMixin(
+      class Elem {
+        readonly nodeType = NodeType.Element;
+        parentNode: ParentNode | null = null;
+        firstChild: ChildNode | null = null;
+        lastChild: ChildNode | null = null;
+        private _classList?: DOMTokenList;
+        private _dataset?: DOMStringMap;
+        private _style?: CSSStyleDeclaration;
+
+        constructor(
+          public ownerDocument: Document,
+          readonly localName: string,
+          public namespaceURI: Namespace,
+          public attributes: Attribute[] = []
+        ) {
+          // NOTE like the browser, templates always have content
+          if (namespaceURI === htmlNamespace && localName === "template") {
+            self<Template>(this).content = new Frag(ownerDocument);
+          }
+        }
 
-      constructor(
-        readonly tagName: string,
-        public namespaceURI: Namespace,
-        public attributes: Attribute[] = []
-      ) {}
+        get tagName(): string {
+          // NOTE only html elements are case insensitive
+          return this.namespaceURI === htmlNamespace
+            ? this.localName.toUpperCase()
+            : this.localName;
+        }
 
-      get nodeName(): string {
-        return this.tagName;
-      }
+        get nodeName(): string {
+          return this.tagName;
+        }
 
-      get localName(): string {
-        return this.tagName.toLowerCase();
-      }
+        getAttribute(attribute: string): string | null {
+          const ind = attributeIndex(this, attribute);
+          return ind === -1 ? null : this.attributes[ind].value;
+        }
 
-      getAttribute(attribute: string): string | null {
-        for (const { name, value } of this.attributes) {
-          if (name === attribute) {
-            return value;
+        setAttribute(this: Element, name: string, value: string): void {
+          validateAttributeName(name);
+          const ind = attributeIndex(this, name);
+          unindexId(this);
+          if (ind === -1) {
+            this.attributes.push({ name: attributeName(this, name), value });
+          } else {
+            this.attributes[ind].value = value;
           }
+          attributesChanged(this);
         }
-        return null;
-      }
 
-      setAttribute(name: string, value: string): void {
-        for (const attr of this.attributes) {
-          if (attr.name === name) {
-            attr.value = value;
-            return;
+        hasAttribute(attribute: string): boolean {
+          return attributeIndex(this, attribute) !== -1;
+        }
+
+        removeAttribute(this: Element, attribute: string): void {
+          const ind = attributeIndex(this, attribute);
+          if (ind !== -1) {
+            unindexId(this);
+            this.attributes.splice(ind, 1);
+            attributesChanged(this);
           }
         }
-        this.attributes.push({ name, value });
-      }
 
-      hasAttribute(attribute: string): boolean {
-        return this.attributes.some(({ name }) => name === attribute);
-      }
+        toggleAttribute(
+          this: Element,
+          attribute: string,
+          force?: boolean
+        ): boolean {
+          validateAttributeName(attribute);
+          const ind = attributeIndex(this, attribute);
+          if (ind === -1 && force !== false) {
+            const name = attributeName(this, attribute);
+            this.attributes.push({ name, value: "" });
+            // NOTE an empty id isn't indexed, so there's nothing to remove
+            attributesChanged(this);
+            return true;
+          } else if (ind !== -1 && force !== true) {
+            unindexId(this);
+            this.attributes.splice(ind, 1);
+            attributesChanged(this);
+            return false;
+          } else {
+            return ind !== -1;
+          }
+        }
 
-      removeAttribute(attribute: string): void {
-        const ind = this.attributes.findIndex(({ name }) => name === attribute);
-        if (ind !== -1) {
-          this.attributes.splice(ind, 1);
+        getAttributeNames(): string[] {
+          return this.attributes.map(qualifiedName);
         }
-      }
 
-      get id(): string {
-        return this.getAttribute("id") ?? "";
-      }
+        hasAttributeNS(namespace: string | null, localName: string): boolean {
+          return namespacedIndex(this, namespace, localName) !== -1;
+        }
 
-      set id(val: string) {
-        this.setAttribute("id", val);
-      }
+        getAttributeNS(
+          namespace: string | null,
+          localName: string
+        ): string | null {
+          const ind = namespacedIndex(this, namespace, localName);
+          return ind === -1 ? null : this.attributes[ind].value;
+        }
 
-      get className(): string {
-        return this.getAttribute("class") ?? "";
-      }
+        setAttributeNS(
+          this: Element,
+          namespace: string | null,
+          qualifiedName: string,
+          value: string
+        ): void {
+          const attr = namespacedAttribute(namespace, qualifiedName, value);
+          const ind = namespacedIndex(this, attr.namespace ?? null, attr.name);
+          unindexId(this);
+          if (ind === -1) {
+            this.attributes.push(attr);
+          } else {
+            // NOTE like the browser, the existing prefix is kept
+            this.attributes[ind].value = value;
+          }
+          attributesChanged(this);
+        }
 
-      set className(val: string) {
-        this.setAttribute("class", val);
-      }
+        removeAttributeNS(
+          this: Element,
+          namespace: string | null,
+          localName: string
+        ): void {
+          const ind = namespacedIndex(this, namespace, localName);
+          if (ind !== -1) {
+            unindexId(this);
+            this.attributes.splice(ind, 1);
+            attributesChanged(this);
+          }
+        }
 
-      get src(): string | undefined {
-        if (["IMG", "PICTURE", "FIGURE"].indexOf(this.tagName) === -1) {
-          return this._src;
-        } else {
-          return this.getAttribute("src") ?? "";
+        matches(this: Element, selector: string): boolean {
+          return matchesSelector(this, compileSelector(selector));
         }
-      }
 
-      set src(val: string | undefined) {
-        if (["IMG", "PICTURE", "FIGURE"].indexOf(this.tagName) === -1) {
-          this._src = val;
-        } else {
-          this.setAttribute("src", val ?? "undefined");
+        closest(this: Element, selector: string): Element | null {
+          const selectors = compileSelector(selector);
+          if (matchesSelector(this, selectors)) {
+            return this;
+          }
+          let pointer = this.parentNode;
+          while (pointer?.nodeType === NodeType.Element) {
+            if (matchesSelector(pointer, selectors)) {
+              return pointer;
+            }
+            pointer = pointer.parentNode;
+          }
+          return null;
         }
-      }
 
-      get srcset(): string | undefined {
-        if (["IMG", "PICTURE", "FIGURE"].indexOf(this.tagName) === -1) {
-          return this._srcset;
-        } else {
-          return this.getAttribute("srcset") ?? "";
+        get classList(): DOMTokenList {
+          if (!this._classList) {
+            this._classList = new TokenList(self<Element>(this), "class");
+          }
+          return this._classList;
         }
-      }
 
-      set srcset(val: string | undefined) {
-        if (["IMG", "PICTURE", "FIGURE"].indexOf(this.tagName) === -1) {
-          this._srcset = val;
-        } else {
-          this.setAttribute("srcset", val ?? "undefined");
+        get dataset(): DOMStringMap {
+          if (!this._dataset) {
+            this._dataset = createDataset(self<Element>(this));
+          }
+          return this._dataset;
         }
-      }
 
-      get innerHTML(): string {
-        const res = [];
-        for (const child of this.childNodes) {
-          for (const str of outerHtml(child)) {
-            res.push(str);
+        get style(): CSSStyleDeclaration {
+          if (!this._style) {
+            this._style = createStyle(self<Element>(this));
           }
+          return this._style;
+        }
+
+        get innerHTML(): string {
+          return innerHtml(self<Element>(this));
         }
-        return res.join("");
-      }
 
-      get textContent(): string {
-        const vals = [];
-        for (const node of dfs(...this.childNodes)) {
-          if (node.nodeType === NodeType.Text) {
-            vals.push(node.value);
+        set innerHTML(val: string) {
+          const elem = self<Element>(this);
+          const frag = settingsOf(elem).parseFragment(elem, val, {
+            treeAdapter: adapterFor(elem),
+          });
+          // NOTE like the browser, templates set their content instead
+          const target =
+            elem.tagName === "TEMPLATE" ? (elem as Template).content : elem;
+          removeChildren(target);
+          while (frag.firstChild) {
+            link(target, frag.firstChild, null);
+          }
+        }
+
+        get outerHTML(): string {
+          return outerHtml(self<Element>(this));
+        }
+
+        set outerHTML(val: string) {
+          const elem = self<Element>(this);
+          const parent = elem.parentNode;
+          // NOTE like the browser, detached elements are unaffected
+          if (!parent || !isLinked(elem)) {
+            return;
+          } else if (parent.nodeType === NodeType.Document) {
+            throw new DOMException(
+              "can't set outerHTML of an element in a document",
+              "NoModificationAllowedError"
+            );
+          }
+          const adapter = adapterFor(parent);
+          const context =
+            parent.nodeType === NodeType.Element
+              ? parent
+              : adapter.createElement("body", htmlNamespace as html.NS, []);
+          const frag = settingsOf(parent).parseFragment(context, val, {
+            treeAdapter: adapter,
+          });
+          while (frag.firstChild) {
+            link(parent, frag.firstChild, elem);
+          }
+          unlink(elem);
+        }
+
+        get textContent(): string {
+          return textOf(self<Element>(this));
+        }
+
+        set textContent(val: string) {
+          const elem = self<Element>(this);
+          removeChildren(elem);
+          if (val) {
+            link(elem, new Txt(elem.ownerDocument, val), null);
+          }
+        }
+
+        get innerText(): string {
+          return innerText(self<Element>(this));
+        }
+
+        set innerText(val: string) {
+          const elem = self<Element>(this);
+          removeChildren(elem);
+          for (const [i, line] of val.split(/\r\n|\r|\n/).entries()) {
+            if (i) {
+              link(elem, elem.ownerDocument.createElement("br"), null);
+            }
+            if (line) {
+              link(elem, new Txt(elem.ownerDocument, line), null);
+            }
           }
         }
-        return vals.join("");
       }
-    }
+    )
   )
 );
 
@@ -727,7 +2593,7 @@ const Comm = ChildMixin(
     readonly childNodes = [] as const;
     parentNode: ParentNode | null = null;
 
-    constructor(public data: string) {}
+    constructor(public ownerDocument: Document, public data: string) {}
   }
 );
 
@@ -737,8 +2603,21 @@ const Txt = ChildMixin(
     readonly nodeType = NodeType.Text;
     readonly childNodes = [] as const;
     parentNode: ParentNode | null = null;
+    // NOTE ES2020 #private members don't work with mixins
+    private _value: string;
 
-    constructor(public value: string) {}
+    constructor(public ownerDocument: Document, value: string) {
+      this._value = value;
+    }
+
+    get value(): string {
+      return this._value;
+    }
+
+    set value(val: string) {
+      this._value = val;
+      invalidate(this.parentNode);
+    }
 
     get textContent(): string {
       return this.value;
@@ -754,6 +2633,7 @@ const DocType = ChildMixin(
     parentNode: ParentNode | null = null;
 
     constructor(
+      public ownerDocument: Document,
       public name: string,
       public publicId: string,
       public systemId: string
@@ -775,224 +2655,352 @@ export type TreeAdapterTypes = TreeAdapterTypeMap<
   DocumentType
 >;
 
-/** tree adapter that's readability convertible */
-export const treeAdapter: TreeAdapter<TreeAdapterTypes> = {
-  // ----------------- //
-  // Node construction //
-  // ----------------- //
-  createDocument(): Document {
-    return new Doc();
-  },
-
-  createDocumentFragment(): DocumentFragment {
-    return new Frag();
-  },
-
-  createElement(
-    tagName: string,
-    namespaceURI: html.NS,
-    attrs: Attribute[]
-  ): Element {
-    return new Elem(tagName.toUpperCase(), namespaceURI as Namespace, attrs);
-  },
-
-  createCommentNode(data: string): CommentNode {
-    return new Comm(data);
-  },
-
-  // ------------- //
-  // Tree Mutation //
-  // ------------- //
-  appendChild(parentNode: ParentNode, newNode: ChildNode): void {
-    parentNode.childNodes.push(newNode);
-    newNode.parentNode = parentNode;
-  },
+/** options for {@link createTreeAdapter} */
+export interface TreeAdapterOptions {
+  /**
+   * cache the results of `textContent` and `getElementsByTagName`
+   *
+   * Every parent remembers the results for its subtree until the subtree is
+   * mutated, which makes repeated queries of the same subtrees, like
+   * Readability does, much faster at the cost of extra memory. Nodes created
+   * by a cached document are also cached.
+   *
+   * @defaultValue false
+   */
+  cache?: boolean;
+
+  /**
+   * throw a `NotFoundError` when a node that should be a child of a parent
+   * isn't, like the browser does
+   *
+   * By default `removeChild` ignores such nodes and `replaceChild` and
+   * `insertBefore` append instead, which is how this library has always
+   * behaved.
+   *
+   * @defaultValue false
+   */
+  strict?: boolean;
+
+  /**
+   * return live collections from `childNodes`, `children` and the
+   * `getElementsBy*` methods, like the browser
+   *
+   * Live collections are read only arrays that reflect later mutations, even
+   * while iterating over them, and also have the methods of
+   * {@link NodeList} or {@link HTMLCollection}. By default these return
+   * arrays of the nodes at the time they're called.
+   *
+   * @defaultValue false
+   */
+  live?: boolean;
+
+  /**
+   * the url of created documents, which relative urls resolve against
+   *
+   * @defaultValue "about:blank"
+   */
+  url?: string;
+
+  /**
+   * the parser for setting `innerHTML` and `outerHTML`, usually parse5's
+   * `parseFragment`
+   *
+   * It's an option so that parse5 is only bundled when it's needed. Without
+   * it, those setters throw a `NotSupportedError`.
+   *
+   * @example
+   * ```ts
+   * import { parseFragment } from "parse5";
+   * const treeAdapter = createTreeAdapter({ parseFragment });
+   * ```
+   */
+  parseFragment?: FragmentParser;
+}
 
-  insertBefore(
-    parentNode: ParentNode,
-    newNode: ChildNode,
-    referenceNode: ChildNode
-  ): void {
-    const insertionIdx = parentNode.childNodes.indexOf(referenceNode);
-    newNode.parentNode = parentNode;
-    if (insertionIdx === -1) {
-      parentNode.childNodes.push(newNode);
-    } else {
-      parentNode.childNodes.splice(insertionIdx, 0, newNode);
-    }
-  },
-
-  setTemplateContent(
-    templateElement: Template,
-    contentElement: DocumentFragment
-  ): void {
-    templateElement.content = contentElement;
-  },
-
-  getTemplateContent(templateElement: Template): DocumentFragment {
-    return templateElement.content;
-  },
-
-  setDocumentType(
-    document: Document,
-    name: string,
-    publicId: string,
-    systemId: string
-  ): void {
-    const doctypeNode = document.childNodes.find(
-      (node): node is DocumentType => node.nodeType === NodeType.DocumentType
-    );
+/** a parser of html in the context of an element, like parse5's */
+export type FragmentParser = (
+  context: ParentNode,
+  html: string,
+  options: { treeAdapter: TreeAdapter<TreeAdapterTypes> }
+) => DocumentFragment;
+
+/** the default fragment parser, which isn't included */
+function unsupportedParser(): never {
+  throw new DOMException(
+    "setting html requires the parseFragment option",
+    "NotSupportedError"
+  );
+}
 
-    if (doctypeNode) {
-      doctypeNode.name = name;
-      doctypeNode.publicId = publicId;
-      doctypeNode.systemId = systemId;
-    } else {
-      const node: DocumentType = new DocType(name, publicId, systemId);
-      this.appendChild(document, node);
-    }
-  },
+/**
+ * create a tree adapter that's readability convertible
+ *
+ * Every node belongs to a document. Nodes the adapter creates start out in
+ * their own new document, and are adopted by the document of the tree they're
+ * inserted into. So nodes of a parsed document belong to it, and parsed
+ * fragments belong to a new empty document.
+ *
+ * @throws TypeError if `url` isn't a valid absolute url
+ */
+export function createTreeAdapter({
+  cache = false,
+  strict = false,
+  live = false,
+  url = "about:blank",
+  parseFragment = unsupportedParser,
+}: TreeAdapterOptions = {}): TreeAdapter<TreeAdapterTypes> {
+  const settings = {
+    cache,
+    strict,
+    live,
+    url: new URL(url).href,
+    parseFragment,
+  };
+  return documentAdapter(settings, null);
+}
 
-  setDocumentMode(document: Document, mode: html.DOCUMENT_MODE): void {
-    document.mode = mode as DocumentMode;
-  },
+/**
+ * a tree adapter whose nodes belong to document
+ *
+ * Without a document, every created node gets its own new document until
+ * it's inserted into a tree, which adopts it.
+ */
+function documentAdapter(
+  settings: Settings,
+  document: Document | null
+): TreeAdapter<TreeAdapterTypes> {
+  function owner(): Document {
+    return document ?? new Doc(settings);
+  }
 
-  getDocumentMode(document: Document): html.DOCUMENT_MODE {
-    return document.mode as html.DOCUMENT_MODE;
-  },
+  return {
+    // ----------------- //
+    // Node construction //
+    // ----------------- //
+    createDocument(): Document {
+      return new Doc(settings);
+    },
+
+    createDocumentFragment(): DocumentFragment {
+      return new Frag(owner());
+    },
+
+    createElement(
+      tagName: string,
+      namespaceURI: html.NS,
+      attrs: Attribute[]
+    ): Element {
+      return new Elem(owner(), tagName, namespaceURI as Namespace, attrs);
+    },
+
+    createCommentNode(data: string): CommentNode {
+      return new Comm(owner(), data);
+    },
+
+    // ------------- //
+    // Tree Mutation //
+    // ------------- //
+    appendChild(parentNode: ParentNode, newNode: ChildNode): void {
+      link(parentNode, newNode, null);
+    },
+
+    insertBefore(
+      parentNode: ParentNode,
+      newNode: ChildNode,
+      referenceNode: ChildNode
+    ): void {
+      link(parentNode, newNode, referenceNode);
+    },
 
-  detachNode(node: ChildNode): void {
-    if (node.parentNode) {
-      const idx = node.parentNode.childNodes.indexOf(node);
-      node.parentNode.childNodes.splice(idx, 1);
-      node.parentNode = null;
-    }
-  },
+    setTemplateContent(
+      templateElement: Template,
+      contentElement: DocumentFragment
+    ): void {
+      adopt(contentElement, templateElement.ownerDocument);
+      templateElement.content = contentElement;
+    },
+
+    getTemplateContent(templateElement: Template): DocumentFragment {
+      return templateElement.content;
+    },
+
+    setDocumentType(
+      document: Document,
+      name: string,
+      publicId: string,
+      systemId: string
+    ): void {
+      let doctypeNode = document.firstChild;
+      while (doctypeNode && doctypeNode.nodeType !== NodeType.DocumentType) {
+        doctypeNode = doctypeNode.nextSibling;
+      }
 
-  insertText(parentNode: ParentNode, text: string): void {
-    if (parentNode.childNodes.length > 0) {
-      const prevNode = parentNode.childNodes[parentNode.childNodes.length - 1];
+      if (doctypeNode) {
+        doctypeNode.name = name;
+        doctypeNode.publicId = publicId;
+        doctypeNode.systemId = systemId;
+      } else {
+        const node: DocumentType = new DocType(
+          document,
+          name,
+          publicId,
+          systemId
+        );
+        this.appendChild(document, node);
+      }
+    },
+
+    setDocumentMode(document: Document, mode: html.DOCUMENT_MODE): void {
+      document.mode = mode as DocumentMode;
+    },
+
+    getDocumentMode(document: Document): html.DOCUMENT_MODE {
+      return document.mode as html.DOCUMENT_MODE;
+    },
+
+    detachNode(node: ChildNode): void {
+      unlink(node);
+    },
 
-      if (this.isTextNode(prevNode)) {
+    insertText(parentNode: ParentNode, text: string): void {
+      const prevNode = parentNode.lastChild;
+
+      if (prevNode && this.isTextNode(prevNode)) {
         prevNode.value += text;
-        return;
+      } else {
+        this.appendChild(parentNode, new Txt(documentOf(parentNode), text));
       }
-    }
+    },
 
-    this.appendChild(parentNode, new Txt(text));
-  },
+    insertTextBefore(
+      parentNode: ParentNode,
+      text: string,
+      referenceNode: ChildNode
+    ): void {
+      const prevNode =
+        referenceNode.parentNode === parentNode
+          ? referenceNode.previousSibling
+          : null;
 
-  insertTextBefore(
-    parentNode: ParentNode,
-    text: string,
-    referenceNode: ChildNode
-  ): void {
-    const prevNode =
-      parentNode.childNodes[parentNode.childNodes.indexOf(referenceNode) - 1];
+      if (prevNode && this.isTextNode(prevNode)) {
+        prevNode.value += text;
+      } else {
+        const node = new Txt(documentOf(parentNode), text);
+        this.insertBefore(parentNode, node, referenceNode);
+      }
+    },
 
-    if (prevNode && this.isTextNode(prevNode)) {
-      prevNode.value += text;
-    } else {
-      this.insertBefore(parentNode, new Txt(text), referenceNode);
-    }
-  },
+    adoptAttributes(recipient: Element, attrs: Attribute[]): void {
+      const recipientAttrsMap = new Set(
+        recipient.attributes.map((attr) => attr.name)
+      );
 
-  adoptAttributes(recipient: Element, attrs: Attribute[]): void {
-    const recipientAttrsMap = new Set(
-      recipient.attributes.map((attr) => attr.name)
-    );
+      unindexId(recipient);
+      for (const attr of attrs) {
+        if (!recipientAttrsMap.has(attr.name)) {
+          recipient.attributes.push(attr);
+        }
+      }
+      attributesChanged(recipient);
+    },
+
+    // --------------- //
+    // Tree Traversing //
+    // --------------- //
+    getFirstChild(node: ParentNode): null | ChildNode {
+      return node.firstChild;
+    },
+
+    getChildNodes(node: ParentNode): ChildNode[] {
+      // NOTE parse5 only reads these
+      return node.childNodes as ChildNode[];
+    },
+
+    getParentNode(node: ChildNode): null | ParentNode {
+      return node.parentNode;
+    },
+
+    getAttrList(element: Element): Attribute[] {
+      return element.attributes;
+    },
+
+    // --------- //
+    // Node Data //
+    // --------- //
+    getTagName(element: Element): string {
+      return element.localName;
+    },
+
+    getNamespaceURI(element: Element): html.NS {
+      return element.namespaceURI as html.NS;
+    },
+
+    getTextNodeContent(textNode: TextNode): string {
+      return textNode.value;
+    },
+
+    getCommentNodeContent(commentNode: CommentNode): string {
+      return commentNode.data;
+    },
+
+    getDocumentTypeNodeName(doctypeNode: DocumentType): string {
+      return doctypeNode.name;
+    },
+
+    getDocumentTypeNodePublicId(doctypeNode: DocumentType): string {
+      return doctypeNode.publicId;
+    },
+
+    getDocumentTypeNodeSystemId(doctypeNode: DocumentType): string {
+      return doctypeNode.systemId;
+    },
+
+    // ---------- //
+    // Node types //
+    // ---------- //
+    isTextNode(node: Node): node is TextNode {
+      return node.nodeType === NodeType.Text;
+    },
+
+    isCommentNode(node: Node): node is CommentNode {
+      return node.nodeType === NodeType.Comment;
+    },
+
+    isDocumentTypeNode(node: Node): node is DocumentType {
+      return node.nodeType === NodeType.DocumentType;
+    },
+
+    isElementNode(node: Node): node is Element {
+      return node.nodeType === NodeType.Element;
+    },
+
+    // -------------------- //
+    // Source Code Location //
+    // -------------------- //
+    setNodeSourceCodeLocation(
+      node: Node,
+      location: ElementLocation | null
+    ): void {
+      node.sourceCodeLocation = location;
+    },
+
+    getNodeSourceCodeLocation(node: Node): ElementLocation | undefined | null {
+      return node.sourceCodeLocation;
+    },
 
-    for (const attr of attrs) {
-      if (!recipientAttrsMap.has(attr.name)) {
-        recipient.attributes.push(attr);
-      }
-    }
-  },
-
-  // --------------- //
-  // Tree Traversing //
-  // --------------- //
-  getFirstChild(node: ParentNode): null | ChildNode {
-    return node.childNodes[0] ?? null;
-  },
-
-  getChildNodes(node: ParentNode): ChildNode[] {
-    return node.childNodes;
-  },
-
-  getParentNode(node: ChildNode): null | ParentNode {
-    return node.parentNode;
-  },
-
-  getAttrList(element: Element): Attribute[] {
-    return element.attributes;
-  },
-
-  // --------- //
-  // Node Data //
-  // --------- //
-  getTagName(element: Element): string {
-    return element.localName;
-  },
-
-  getNamespaceURI(element: Element): html.NS {
-    return element.namespaceURI as html.NS;
-  },
-
-  getTextNodeContent(textNode: TextNode): string {
-    return textNode.value;
-  },
-
-  getCommentNodeContent(commentNode: CommentNode): string {
-    return commentNode.data;
-  },
-
-  getDocumentTypeNodeName(doctypeNode: DocumentType): string {
-    return doctypeNode.name;
-  },
-
-  getDocumentTypeNodePublicId(doctypeNode: DocumentType): string {
-    return doctypeNode.publicId;
-  },
-
-  getDocumentTypeNodeSystemId(doctypeNode: DocumentType): string {
-    return doctypeNode.systemId;
-  },
-
-  // ---------- //
-  // Node types //
-  // ---------- //
-  isTextNode(node: Node): node is TextNode {
-    return node.nodeType === NodeType.Text;
-  },
-
-  isCommentNode(node: Node): node is CommentNode {
-    return node.nodeType === NodeType.Comment;
-  },
-
-  isDocumentTypeNode(node: Node): node is DocumentType {
-    return node.nodeType === NodeType.DocumentType;
-  },
-
-  isElementNode(node: Node): node is Element {
-    return node.nodeType === NodeType.Element;
-  },
-
-  // -------------------- //
-  // Source Code Location //
-  // -------------------- //
-  setNodeSourceCodeLocation(
-    node: Node,
-    location: ElementLocation | null
-  ): void {
-    node.sourceCodeLocation = location;
-  },
-
-  getNodeSourceCodeLocation(node: Node): ElementLocation | undefined | null {
-    return node.sourceCodeLocation;
-  },
-
-  updateNodeSourceCodeLocation(node: Node, endLocation: ElementLocation): void {
-    node.sourceCodeLocation = { ...node.sourceCodeLocation, ...endLocation };
-  },
-};
+    updateNodeSourceCodeLocation(
+      node: Node,
+      endLocation: ElementLocation
+    ): void {
+      node.sourceCodeLocation = { ...node.sourceCodeLocation, ...endLocation };
+    },
+  };
+}
+
+/** tree adapter that's readability convertible */
+export const treeAdapter = createTreeAdapter();
+
+/** the tree adapter for parsing content into parent */
+function adapterFor(parent: ParentNode): TreeAdapter<TreeAdapterTypes> {
+  return documentAdapter(settingsOf(parent), documentOf(parent));
+}
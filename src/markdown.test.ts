@@ -0,0 +1,205 @@
+import { parse, parseFragment } from "parse5";
+import { createTreeAdapter, Element, toMarkdown, treeAdapter } from ".";
+import { fragment } from "./testing";
+
+describe("markdown", () => {
+  test("headings & paragraphs", () => {
+    expect(
+      toMarkdown(
+        fragment(`
+      <h1>Title</h1>
+      <p>first
+        paragraph</p>
+      <h3> <em>Sub</em> heading<br>two </h3>
+      <p>second</p>
+      <hr>
+      <h2></h2>
+      <p> </p>
+      text <div>block</div> more`)
+      )
+    ).toBe(
+      "# Title\n\nfirst paragraph\n\n### _Sub_ heading two\n\nsecond\n\n---\n\ntext\n\nblock\n\nmore"
+    );
+  });
+
+  test("emphasis", () => {
+    expect(
+      toMarkdown(
+        fragment(
+          `<p><em>a</em> <i> b </i> <strong>c</strong><b></b> <del>d</del> <s>e</s></p>`
+        )
+      )
+    ).toBe("_a_ _b_ **c** ~~d~~ ~~e~~");
+    const frag = parseFragment(`<p><em>a</em> <b>b</b></p>`, { treeAdapter });
+    expect(toMarkdown(frag, { emphasis: "*", strong: "__" })).toBe("*a* __b__");
+  });
+
+  test("line breaks", () => {
+    expect(toMarkdown(fragment(`<p>a<br>b <br> c<br><br>d</p>`))).toBe(
+      "a  \nb  \nc  \n  \nd"
+    );
+  });
+
+  test("code", () => {
+    expect(
+      toMarkdown(
+        fragment("<p>use <code>a  *b*</code> and <code>x`y</code></p>")
+      )
+    ).toBe("use `a *b*` and ``x`y``");
+    expect(toMarkdown(fragment("<p><code>`a</code><code> </code></p>"))).toBe(
+      "`` `a ``"
+    );
+    expect(
+      toMarkdown(
+        fragment(`<pre><code class="language-ts">const a = 1;
+if (a) {
+  b();
+}
+</code></pre>`)
+      )
+    ).toBe("```ts\nconst a = 1;\nif (a) {\n  b();\n}\n```");
+    expect(toMarkdown(fragment("<pre class='lang-js x'>```\n*a*</pre>"))).toBe(
+      "````js\n```\n*a*\n````"
+    );
+    const [pre] = parseFragment("<pre>a</pre>", { treeAdapter }).children;
+    expect(toMarkdown(pre, { fence: "~" })).toBe("~~~\na\n~~~");
+  });
+
+  test("links & images", () => {
+    const adapter = createTreeAdapter({ url: "https://example.com/a/b" });
+    const doc = parse(
+      `<p><a href="c">link</a> <a href="/d (e)" title='say "hi"'>title</a> <a href="http://[">invalid</a> <a>anchor</a> <a href="f"> </a></p><p><img src="g.png" alt="an [image]"> <img src="h.png"> <img alt="missing"></p>`,
+      { treeAdapter: adapter }
+    );
+    // the base url is only found once, rather than for every link
+    const [link] = doc.getElementsByTagName("a");
+    const baseURI = jest.spyOn(
+      Object.getPrototypeOf(link) as Element,
+      "baseURI",
+      "get"
+    );
+    expect(toMarkdown(doc)).toBe(
+      [
+        `[link](https://example.com/a/c) [title](https://example.com/d%20%28e%29 "say \\"hi\\"") [invalid](http://[) anchor`,
+        `![an \\[image\\]](https://example.com/a/g.png) ![](https://example.com/a/h.png)`,
+      ].join("\n\n")
+    );
+    expect(baseURI).not.toHaveBeenCalled();
+    expect(toMarkdown(doc.body.firstChild!)).toContain("https://example.com/");
+    expect(baseURI).toHaveBeenCalledTimes(1);
+    baseURI.mockRestore();
+
+    // without a url, relative links stay relative
+    expect(toMarkdown(fragment(`<a href="../x y">x</a>`))).toBe(
+      "[x](../x%20y)"
+    );
+    expect(toMarkdown(fragment(`<a href="#top">top</a>`))).toBe("[top](#top)");
+  });
+
+  test("lists", () => {
+    expect(
+      toMarkdown(
+        fragment(`<ul>
+        <li>one</li>
+        <li>two
+          <ol start="3">
+            <li>three</li>
+            <li><p>four</p><p>five</p></li>
+          </ol>
+        </li>
+        <li></li>
+      </ul>`)
+      )
+    ).toBe("- one\n- two\n  3. three\n  4. four\n\n     five\n-");
+    const [list] = parseFragment("<ol><li>a<li>b</ol>", {
+      treeAdapter,
+    }).children;
+    expect(toMarkdown(list)).toBe("1. a\n2. b");
+    const [bullets] = parseFragment("<ul><li>a</ul>", { treeAdapter }).children;
+    expect(toMarkdown(bullets, { bullet: "*" })).toBe("* a");
+  });
+
+  test("blockquotes", () => {
+    expect(
+      toMarkdown(
+        fragment(
+          `<blockquote><p>a</p><blockquote>b</blockquote><p>c<br>d</p></blockquote>`
+        )
+      )
+    ).toBe("> a\n>\n> > b\n>\n> c  \n> d");
+  });
+
+  test("tables", () => {
+    expect(
+      toMarkdown(
+        fragment(`<table>
+        <caption>Caption</caption>
+        <thead><tr><th>a</th><th>b | c</th></tr></thead>
+        <tbody>
+          <tr><td><b>1</b></td><td>2<br>3</td></tr>
+          <tr><td>4</td></tr>
+        </tbody>
+      </table>`)
+      )
+    ).toBe(
+      "Caption\n\n| a | b \\| c |\n| --- | --- |\n| **1** | 2<br>3 |\n| 4 |  |"
+    );
+    const [table] = parseFragment("<table><tr><td>a</td></tr></table>", {
+      treeAdapter,
+    }).children;
+    table.firstElementChild?.remove();
+    table.append(table.ownerDocument.createElement("tr"));
+    table.append(table.ownerDocument.createElement("caption"));
+    expect(toMarkdown(table)).toBe("");
+    expect(toMarkdown(fragment("<table></table>"))).toBe("");
+    expect(
+      toMarkdown(
+        fragment("<table><caption> </caption><tr><th>x</th></tr></table>")
+      )
+    ).toBe("| x |\n| --- |");
+    expect(toMarkdown(fragment("<table><tr><td>y</td></tr></table>"))).toBe(
+      "| y |\n| --- |"
+    );
+  });
+
+  test("escaping", () => {
+    expect(
+      toMarkdown(
+        fragment(
+          `<p>*a* _b_ \`c\` [d](e) &lt;f&gt; ~~g~~ h|i \\j</p><p># k</p><p>- l<br>+ m<br>1. n<br>2) o<br>===</p><p>#p 1.5 -q</p>`
+        )
+      )
+    ).toBe(
+      [
+        "\\*a\\* \\_b\\_ \\`c\\` \\[d\\](e) \\<f\\> \\~\\~g\\~\\~ h\\|i \\\\j",
+        "\\# k",
+        "\\- l  \n\\+ m  \n1\\. n  \n2\\) o  \n\\===",
+        "#p 1.5 -q",
+      ].join("\n\n")
+    );
+  });
+
+  test("hidden", () => {
+    const doc = parse(
+      `<title>Title</title><script>a</script><p>b<span hidden>c</span><!-- d --></p><template>e</template><p style="display: none">f</p>`,
+      { treeAdapter }
+    );
+    expect(toMarkdown(doc)).toBe("b");
+    expect(toMarkdown(doc.body.firstChild!)).toBe("b");
+    expect(toMarkdown(doc.createTextNode("*"))).toBe("\\*");
+    expect(
+      toMarkdown(parse("<!doctype html>", { treeAdapter }).firstChild!)
+    ).toBe("");
+    expect(toMarkdown(doc.createComment("x"))).toBe("");
+  });
+
+  test("foreign elements", () => {
+    expect(
+      toMarkdown(
+        fragment(
+          `<p>one <svg><a href="b">two</a> <text>three</text></svg> <math><mi>four</mi></math></p>`
+        )
+      )
+    ).toBe("one two three four");
+  });
+});
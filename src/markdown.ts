@@ -0,0 +1,308 @@
+/**
+ * markdown conversion
+ *
+ * Blocks are converted to their markdown equivalents, including github
+ * flavored tables, and everything else is converted to its text. Elements that
+ * aren't rendered are skipped, like for `innerText`.
+ *
+ * @see {@link https://github.github.com/gfm/}
+ */
+import { ChildNode, Element, Node, NodeType, ParentNode } from ".";
+import { isHtml } from "./html";
+import { resolveUrl } from "./reflect";
+import { isBlock, isHidden } from "./text";
+
+/** options for {@link toMarkdown} */
+export interface MarkdownOptions {
+  /**
+   * the marker of bullet list items
+   *
+   * @defaultValue "-"
+   */
+  bullet?: "-" | "*" | "+";
+
+  /**
+   * the delimiter of emphasis, like `<em>`
+   *
+   * @defaultValue "_"
+   */
+  emphasis?: "_" | "*";
+
+  /**
+   * the delimiter of strong emphasis, like `<strong>`
+   *
+   * @defaultValue "**"
+   */
+  strong?: "**" | "__";
+
+  /**
+   * the character of code block fences, which is repeated at least three times
+   *
+   * @defaultValue a backtick
+   */
+  fence?: "`" | "~";
+}
+
+/** the resolved options and what every node shares */
+interface Settings extends Required<MarkdownOptions> {
+  /** the url that links resolve against */
+  baseUrl: string;
+}
+
+/** the children of parent */
+function* childrenOf(parent: ParentNode): IterableIterator<ChildNode> {
+  for (let child = parent.firstChild; child; child = child.nextSibling) {
+    yield child;
+  }
+}
+
+/** text with its whitespace collapsed and markdown characters escaped */
+function escapeText(text: string): string {
+  return text
+    .replace(/[ \t\n\r\f]+/g, " ")
+    .replace(/[\\`*_[\]<>~|]/g, (c) => `\\${c}`);
+}
+
+/** a paragraph of inline markdown, where `\n` is a line break */
+function paragraph(inline: string): string {
+  return (
+    inline
+      .replace(/ {2,}/g, " ")
+      .trim()
+      .replace(/ *\n */g, "\n")
+      // NOTE text at the start of a line could otherwise start a block
+      .replace(/^(#{1,6}|[-+]|=+)(?= |$)/gm, "\\$1")
+      .replace(/^(\d+)([.)])(?= |$)/gm, "$1\\$2")
+      .replace(/\n/g, "  \n")
+  );
+}
+
+/** the longest run of char in text */
+function longestRun(text: string, char: string): number {
+  let longest = 0;
+  for (const [run] of text.matchAll(new RegExp(`\\${char}+`, "g"))) {
+    longest = Math.max(longest, run.length);
+  }
+  return longest;
+}
+
+/** content wrapped in a delimiter, leaving any surrounding whitespace out */
+function wrap(content: string, delimiter: string): string {
+  const [, before, inner, after] = /^(\s*)(.*?)(\s*)$/s.exec(content)!;
+  return inner ? `${before}${delimiter}${inner}${delimiter}${after}` : content;
+}
+
+/** url resolved against the base url, escaped for a link */
+function linkUrl(url: string, baseUrl: string): string {
+  // NOTE like Readability, links within the document stay as they are
+  const resolved = url.startsWith("#") ? url : resolveUrl(url, baseUrl) ?? url;
+  return resolved.replace(
+    /[ ()]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/** a link destination with an optional title */
+function destination(elem: Element, url: string, settings: Settings): string {
+  const title = elem.getAttribute("title");
+  const link = linkUrl(url, settings.baseUrl);
+  return title ? `(${link} "${title.replace(/["\\]/g, "\\$&")}")` : `(${link})`;
+}
+
+/** the inline markdown of the children of parent */
+function inlineChildren(parent: ParentNode, settings: Settings): string {
+  const parts = [];
+  for (const child of childrenOf(parent)) {
+    if (child.nodeType === NodeType.Text) {
+      parts.push(escapeText(child.value));
+    } else if (child.nodeType === NodeType.Element && !isHidden(child)) {
+      parts.push(inline(child, settings));
+    }
+  }
+  return parts.join("");
+}
+
+/** the inline markdown of a rendered element */
+function inline(elem: Element, settings: Settings): string {
+  if (isHtml(elem, "br")) {
+    return "\n";
+  } else if (isHtml(elem, "img")) {
+    const src = elem.getAttribute("src");
+    const alt = escapeText(elem.getAttribute("alt") ?? "");
+    return src ? `![${alt}]${destination(elem, src, settings)}` : "";
+  } else if (isHtml(elem, "code", "kbd", "samp", "tt")) {
+    const code = elem.textContent.replace(/[ \t\n\r\f]+/g, " ");
+    const ticks = "`".repeat(longestRun(code, "`") + 1);
+    // NOTE code next to the delimiter needs a space to be distinguished
+    const pad = /^`|`$/.test(code) ? " " : "";
+    return code.trim() ? `${ticks}${pad}${code}${pad}${ticks}` : code;
+  }
+  const content = inlineChildren(elem, settings);
+  if (isHtml(elem, "a")) {
+    const href = elem.getAttribute("href");
+    return href !== null && content.trim()
+      ? `[${content}]${destination(elem, href, settings)}`
+      : content;
+  } else if (isHtml(elem, "em", "i", "cite", "dfn", "var")) {
+    return wrap(content, settings.emphasis);
+  } else if (isHtml(elem, "strong", "b")) {
+    return wrap(content, settings.strong);
+  } else if (isHtml(elem, "del", "s", "strike")) {
+    return wrap(content, "~~");
+  } else {
+    return content;
+  }
+}
+
+/** the markdown blocks of nodes, where inline nodes are grouped in paragraphs */
+function blocks(nodes: Iterable<ChildNode>, settings: Settings): string[] {
+  const results = [];
+  let run = [];
+  for (const node of nodes) {
+    if (node.nodeType === NodeType.Text) {
+      run.push(escapeText(node.value));
+    } else if (node.nodeType !== NodeType.Element || isHidden(node)) {
+      continue;
+    } else if (isBlock(node)) {
+      results.push(paragraph(run.join("")), block(node, settings));
+      run = [];
+    } else {
+      run.push(inline(node, settings));
+    }
+  }
+  results.push(paragraph(run.join("")));
+  return results.filter((result) => result);
+}
+
+/** content with every line but the first indented */
+function indent(content: string, width: number): string {
+  return content.replace(/\n(?=.)/g, `\n${" ".repeat(width)}`);
+}
+
+/** the markdown of a list */
+function list(elem: Element, settings: Settings): string {
+  // NOTE ordered lists always reflect their start
+  let number = elem.localName === "ol" ? (elem.start as number) : null;
+  const items = [];
+  for (const item of elem.children) {
+    const marker = number === null ? `${settings.bullet} ` : `${number++}. `;
+    // NOTE items with more than text and lists are spread out
+    const loose = item.children.some(
+      (child) => isBlock(child) && !isHtml(child, "ul", "ol")
+    );
+    const content = blocks(childrenOf(item), settings).join(
+      loose ? "\n\n" : "\n"
+    );
+    items.push(
+      content ? marker + indent(content, marker.length) : marker.trimEnd()
+    );
+  }
+  return items.join("\n");
+}
+
+/** the markdown of a code block */
+function code(elem: Element, settings: Settings): string {
+  const [child] = elem.children;
+  const classes = `${elem.className} ${
+    child && isHtml(child, "code") ? child.className : ""
+  }`;
+  const [, language = ""] = /(?:^|\s)lang(?:uage)?-(\S+)/.exec(classes) ?? [];
+  const content = elem.textContent.replace(/\n$/, "");
+  const fence = settings.fence.repeat(
+    Math.max(3, longestRun(content, settings.fence) + 1)
+  );
+  return `${fence}${language}\n${content}\n${fence}`;
+}
+
+/** the markdown of a table */
+function table(elem: Element, settings: Settings): string {
+  const rows: Element[] = [];
+  for (const child of elem.children) {
+    if (isHtml(child, "tr")) {
+      rows.push(child);
+    } else if (isHtml(child, "thead", "tbody", "tfoot")) {
+      rows.push(...child.children.filter((row) => isHtml(row, "tr")));
+    }
+  }
+  const cells = rows.map((row) =>
+    row.children
+      .filter((cell) => isHtml(cell, "td", "th"))
+      .map((cell) =>
+        paragraph(inlineChildren(cell, settings)).replace(/ {2}\n/g, "<br>")
+      )
+  );
+  const width = Math.max(0, ...cells.map((row) => row.length));
+  if (!width) {
+    return "";
+  }
+  const lines = cells.map(
+    (row) =>
+      `| ${[...row, ...Array<string>(width - row.length).fill("")].join(
+        " | "
+      )} |`
+  );
+  // NOTE tables always have a header, so the first row is used
+  lines.splice(1, 0, `| ${Array<string>(width).fill("---").join(" | ")} |`);
+  const caption = elem.children.find((child) => isHtml(child, "caption"));
+  const title = caption ? paragraph(inlineChildren(caption, settings)) : "";
+  return title ? `${title}\n\n${lines.join("\n")}` : lines.join("\n");
+}
+
+/** the markdown of a block element */
+function block(elem: Element, settings: Settings): string {
+  const heading = /^h([1-6])$/.exec(elem.localName);
+  if (heading) {
+    const text = paragraph(inlineChildren(elem, settings));
+    return (
+      text &&
+      `${"#".repeat(Number(heading[1]))} ${text.replace(/ {2}\n/g, " ")}`
+    );
+  } else if (isHtml(elem, "p")) {
+    return paragraph(inlineChildren(elem, settings));
+  } else if (isHtml(elem, "ul", "ol", "menu", "dir")) {
+    return list(elem, settings);
+  } else if (isHtml(elem, "pre", "listing", "xmp", "plaintext")) {
+    return code(elem, settings);
+  } else if (isHtml(elem, "blockquote")) {
+    return blocks(childrenOf(elem), settings)
+      .join("\n\n")
+      .replace(/^(.?)/gm, (start) => (start ? `> ${start}` : ">"));
+  } else if (isHtml(elem, "table")) {
+    return table(elem, settings);
+  } else if (isHtml(elem, "hr")) {
+    return "---";
+  } else {
+    return blocks(childrenOf(elem), settings).join("\n\n");
+  }
+}
+
+/**
+ * convert any node to markdown
+ *
+ * Links and images are resolved against the document url, or a `<base>` in
+ * its head, and characters in text that markdown would interpret are escaped.
+ *
+ * @example
+ * ```ts
+ * const doc = parse(content, { treeAdapter });
+ * const markdown = toMarkdown(doc.body);
+ * ```
+ */
+export function toMarkdown(
+  node: Node,
+  {
+    bullet = "-",
+    emphasis = "_",
+    strong = "**",
+    fence = "`",
+  }: MarkdownOptions = {}
+): string {
+  // NOTE every node has the same base, and finding it isn't free
+  const settings = { bullet, emphasis, strong, fence, baseUrl: node.baseURI };
+  const nodes =
+    node.nodeType === NodeType.Document ||
+    node.nodeType === NodeType.DocumentFragment
+      ? childrenOf(node)
+      : [node];
+  return blocks(nodes, settings).join("\n\n");
+}
@@ -0,0 +1,63 @@
+import { Readability } from "@mozilla/readability";
+import { JSDOM } from "jsdom";
+import { loremIpsum } from "lorem-ipsum";
+import { extractArticle } from "./readability";
+
+const opts = { charThreshold: 0 };
+
+describe("readability", () => {
+  test("#extractArticle()", () => {
+    const paragraphs = loremIpsum({ count: 3, units: "paragraphs" })
+      .split("\n")
+      .map((p) => `<p>${p} <a href="../link">link</a></p>`);
+    const content = `
+    <!doctype html>
+    <html lang="en" dir="ltr">
+      <head>
+        <title>Title</title>
+        <meta name="author" content="Author">
+        <meta name="description" content="Description">
+        <meta property="og:site_name" content="Site">
+      </head>
+      <body><article>${paragraphs.join("")}</article></body>
+    </html>`;
+    const url = "https://example.com/a/b";
+    const dom = new JSDOM(content, { url });
+    const expected = new Readability(dom.window.document, opts).parse();
+
+    const article = extractArticle(content, { url, readabilityOptions: opts });
+    expect(article).not.toBeNull();
+    const { contentElement, ...rest } = article!;
+    expect(rest).toEqual({ ...expected, lang: "en" });
+    expect(rest.content).toContain(`<a href="https://example.com/link">`);
+    expect(contentElement.innerHTML).toBe(rest.content);
+    expect(contentElement.querySelectorAll("p")).toHaveLength(3);
+  });
+
+  test("missing metadata", () => {
+    // NOTE without paragraphs there's no excerpt either
+    const content = `<pre>${loremIpsum({
+      count: 3,
+      units: "sentences",
+    })}</pre>`;
+    const article = extractArticle(content, { readabilityOptions: opts });
+    expect(article).not.toBeNull();
+    const { title, byline, dir, lang, excerpt, siteName } = article!;
+    expect({ title, byline, dir, lang, excerpt, siteName }).toEqual({
+      title: "",
+      byline: null,
+      dir: null,
+      lang: null,
+      excerpt: null,
+      siteName: null,
+    });
+    expect(article?.textContent).toBe(article?.contentElement.textContent);
+  });
+
+  test("no article", () => {
+    expect(extractArticle("")).toBeNull();
+    expect(() => extractArticle("", { url: "/relative" })).toThrow(
+      "Invalid URL"
+    );
+  });
+});
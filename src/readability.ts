@@ -0,0 +1,166 @@
+/**
+ * extract articles with Readability
+ *
+ * This is a separate entry point, `read-tree/readability`, so that only users
+ * of it need `@mozilla/readability` installed.
+ *
+ * @example
+ * ```ts
+ * import { extractArticle } from "read-tree/readability";
+ * const article = extractArticle(html, { url: "https://example.com/post" });
+ * ```
+ *
+ * @packageDocumentation
+ */
+import { isProbablyReaderable, Readability } from "@mozilla/readability";
+import { parse, parseFragment } from "parse5";
+import { createTreeAdapter, Document, Element } from ".";
+
+// NOTE the dom document that Readability expects, which the import shadows
+type DomDocument = Parameters<typeof isProbablyReaderable>[0];
+
+/** the options of the Readability constructor */
+export type ReadabilityOptions = Omit<
+  NonNullable<ConstructorParameters<typeof Readability>[1]>,
+  "serializer"
+>;
+
+/** options for {@link extractArticle} */
+export interface ExtractArticleOptions {
+  /**
+   * the url of the document, which relative links and images resolve against
+   *
+   * @defaultValue "about:blank"
+   */
+  url?: string;
+
+  /** options passed to Readability */
+  readabilityOptions?: ReadabilityOptions;
+}
+
+/** an article extracted by Readability */
+export interface Article {
+  /** the article title */
+  title: string;
+
+  /** the author metadata */
+  byline: string | null;
+
+  /** the direction of the content */
+  dir: string | null;
+
+  /** the language of the content */
+  lang: string | null;
+
+  /** the html of the article content */
+  content: string;
+
+  /** the element holding the article content */
+  contentElement: Element;
+
+  /** the text of the article content */
+  textContent: string;
+
+  /** the length of the text in characters */
+  length: number;
+
+  /** the description, or a short excerpt of the content */
+  excerpt: string | null;
+
+  /** the name of the site */
+  siteName: string | null;
+}
+
+/** what Readability actually returns */
+interface ParseResult {
+  title: string;
+  byline?: string | null;
+  dir?: string | null;
+  lang?: string | null;
+  content: Element;
+  textContent: string;
+  length: number;
+  excerpt?: string | null;
+  siteName?: string | null;
+}
+
+/**
+ * parse html and extract its article with Readability
+ *
+ * The document is parsed with caching enabled, since Readability repeatedly
+ * queries the same subtrees.
+ *
+ * @returns the article, or null if Readability couldn't find one
+ * @throws TypeError if `url` isn't a valid absolute url
+ */
+export function extractArticle(
+  html: string,
+  { url, readabilityOptions }: ExtractArticleOptions = {}
+): Article | null {
+  const treeAdapter = createTreeAdapter({ url, cache: true, parseFragment });
+  const doc = parse(html, { treeAdapter });
+  // NOTE Readability only uses the part of the dom that's implemented here
+  const reader = new Readability<Element>(doc as unknown as DomDocument, {
+    ...readabilityOptions,
+    serializer: (node) => node as unknown as Element,
+  });
+  // NOTE the declared types leave out lang, and claim metadata is never missing
+  const result = reader.parse() as ParseResult | null;
+  if (!result) {
+    return null;
+  }
+  const { content: contentElement, textContent } = result;
+  return {
+    title: result.title,
+    byline: result.byline ?? null,
+    dir: result.dir ?? null,
+    lang: result.lang ?? null,
+    content: contentElement.innerHTML,
+    contentElement,
+    textContent,
+    length: result.length,
+    excerpt: result.excerpt ?? null,
+    siteName: result.siteName ?? null,
+  };
+}
+
+/** options for {@link isReaderable} */
+export interface ReaderableOptions {
+  /**
+   * the minimum length of the text of a paragraph for it to count
+   *
+   * @defaultValue 140
+   */
+  minContentLength?: number;
+
+  /**
+   * the minimum score of all paragraphs for a document to be readerable
+   *
+   * @defaultValue 20
+   */
+  minScore?: number;
+
+  /**
+   * if an element is visible
+   *
+   * By default elements are visible unless they're hidden or have
+   * `display: none` in their inline style.
+   */
+  visibilityChecker?: (elem: Element) => boolean;
+}
+
+/**
+ * if Readability will probably find an article in doc
+ *
+ * This is much cheaper than {@link extractArticle}, and doesn't modify the
+ * document, so it can be used to skip pages that aren't articles.
+ */
+export function isReaderable(
+  doc: Document,
+  options: ReaderableOptions = {}
+): boolean {
+  return isProbablyReaderable(
+    doc as unknown as DomDocument,
+    options as NonNullable<Parameters<typeof isProbablyReaderable>[1]>
+  );
+}
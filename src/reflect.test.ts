@@ -0,0 +1,136 @@
+import { parse } from "parse5";
+import { createTreeAdapter, Element } from ".";
+import { element } from "./testing";
+
+describe("reflect", () => {
+  test("strings", () => {
+    const link = element(`<a href="/a" title="t" rel="next"></a>`);
+    expect(link.href).toBe("/a");
+    expect(link.title).toBe("t");
+    expect(link.rel).toBe("next");
+    expect(link.lang).toBe("");
+    expect(link.target).toBe("");
+    link.lang = "en";
+    link.target = "_blank";
+    expect(link.outerHTML).toBe(
+      `<a href="/a" title="t" rel="next" lang="en" target="_blank"></a>`
+    );
+
+    const label = element(`<label for="x"></label>`);
+    expect(label.htmlFor).toBe("x");
+    label.htmlFor = "y";
+    expect(label.getAttribute("for")).toBe("y");
+  });
+
+  test("urls", () => {
+    const treeAdapter = createTreeAdapter({ url: "https://example.com/a/b" });
+    const doc = parse(
+      `<base href="c/"><a href="d?e#f"></a><img src="//cdn.example.com/g.png"><a href="http://["></a><a></a>`,
+      { treeAdapter }
+    );
+    const [base, link, img, invalid, missing] =
+      doc.querySelectorAll("base, a, img");
+    expect(base.href).toBe("https://example.com/a/c/");
+    expect(link.href).toBe("https://example.com/a/c/d?e#f");
+    expect(img.src).toBe("https://cdn.example.com/g.png");
+    expect(invalid.href).toBe("http://[");
+    expect(missing.href).toBe("");
+    link.href = "/h";
+    expect(link.getAttribute("href")).toBe("/h");
+    expect(link.href).toBe("https://example.com/h");
+
+    // without a url only absolute urls resolve
+    expect(element(`<a href="/a"></a>`).href).toBe("/a");
+    expect(element(`<a href="HTTP://A.COM"></a>`).href).toBe("http://a.com/");
+  });
+
+  test("booleans", () => {
+    const input = element(`<input disabled readonly>`);
+    expect(input.disabled).toBe(true);
+    expect(input.readOnly).toBe(true);
+    expect(input.required).toBe(false);
+    expect(input.hidden).toBe(false);
+    input.disabled = false;
+    input.required = true;
+    input.hidden = true;
+    expect(input.outerHTML).toBe(`<input readonly="" required="" hidden="">`);
+  });
+
+  test("numbers", () => {
+    const img = element(`<img width=" 12px" height="-3">`);
+    expect(img.width).toBe(12);
+    expect(img.height).toBe(0);
+    img.height = 7.9;
+    expect(img.getAttribute("height")).toBe("7");
+    img.width = -1;
+    expect(img.getAttribute("width")).toBe("0");
+    img.setAttribute("width", "99999999999");
+    expect(img.width).toBe(0);
+
+    const cell = element(
+      `<table><tr><td colspan="0" rowspan="70000">`
+    ).querySelector("td") as Element;
+    expect(cell.colSpan).toBe(1);
+    expect(cell.rowSpan).toBe(65534);
+    cell.removeAttribute("colspan");
+    expect(cell.colSpan).toBe(1);
+    cell.colSpan = 3;
+    expect(cell.getAttribute("colspan")).toBe("3");
+
+    const list = element(`<ol start="-2"></ol>`);
+    expect(list.start).toBe(-2);
+    list.setAttribute("start", "x");
+    expect(list.start).toBe(1);
+    list.start = 4.5;
+    expect(list.getAttribute("start")).toBe("4");
+  });
+
+  test("enumerated", () => {
+    const img = element(`<img loading="LAZY" dir="RTL">`);
+    expect(img.loading).toBe("lazy");
+    expect(img.dir).toBe("rtl");
+    img.loading = "never";
+    expect(img.loading).toBe("eager");
+    expect(img.getAttribute("loading")).toBe("never");
+    img.removeAttribute("dir");
+    expect(img.dir).toBe("");
+  });
+
+  test("src", () => {
+    for (const tag of ["video", "audio", "iframe", "script", "embed"]) {
+      const elem = element(`<${tag} src="a.src"></${tag}>`);
+      expect(elem.src).toBe("a.src");
+      elem.src = "b.src";
+      expect(elem.getAttribute("src")).toBe("b.src");
+    }
+    const [source] = element(
+      `<picture><source src="a.src" srcset="a.png 2x" type="image/png"></picture>`
+    ).children;
+    expect(source.src).toBe("a.src");
+    expect(source.srcset).toBe("a.png 2x");
+    expect(source.type).toBe("image/png");
+
+    const picture = element(`<picture src="a.src"></picture>`);
+    expect(picture.src).toBeUndefined();
+    expect(picture.srcset).toBeUndefined();
+  });
+
+  test("other elements", () => {
+    const div = element(`<div href="a" width="2"></div>`);
+    expect(div.href).toBeUndefined();
+    expect(div.width).toBeUndefined();
+    expect(div.disabled).toBeUndefined();
+    // NOTE like the browser, setting these doesn't touch the attributes
+    div.href = "b";
+    div.width = 3;
+    expect(div.href).toBe("b");
+    expect(div.width).toBe(3);
+    expect(div.outerHTML).toBe(`<div href="a" width="2"></div>`);
+    expect(element(`<div></div>`).href).toBeUndefined();
+
+    const [svg] = element(`<div><svg><a href="x"></a></svg></div>`).children;
+    const [link] = svg.children;
+    expect(link.href).toBeUndefined();
+    expect(link.title).toBe("");
+  });
+});
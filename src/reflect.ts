@@ -0,0 +1,281 @@
+/**
+ * properties that reflect attributes
+ *
+ * @see {@link https://html.spec.whatwg.org/multipage/common-dom-interfaces.html#reflecting-content-attributes-in-idl-attributes}
+ */
+import { Element } from ".";
+import { htmlNamespace } from "./html";
+
+/** the names of every reflected property */
+export type ReflectedProperty =
+  | "id"
+  | "className"
+  | "title"
+  | "lang"
+  | "dir"
+  | "hidden"
+  | "href"
+  | "rel"
+  | "target"
+  | "download"
+  | "alt"
+  | "src"
+  | "srcset"
+  | "sizes"
+  | "width"
+  | "height"
+  | "type"
+  | "name"
+  | "value"
+  | "placeholder"
+  | "disabled"
+  | "required"
+  | "readOnly"
+  | "multiple"
+  | "htmlFor"
+  | "action"
+  | "colSpan"
+  | "rowSpan"
+  | "span"
+  | "start"
+  | "reversed"
+  | "cite"
+  | "dateTime"
+  | "poster"
+  | "controls"
+  | "autoplay"
+  | "loop"
+  | "async"
+  | "defer"
+  | "open"
+  | "loading";
+
+/** how a property reflects an attribute */
+type Reflection = {
+  /** the attribute, the lowercase property name if missing */
+  attribute?: string;
+  /** the lowercase local names of the html elements with the property, all if missing */
+  elements?: readonly string[];
+} & (
+  | { type: "string" | "url" | "boolean" }
+  | {
+      type: "long" | "unsigned";
+      /** the value when the attribute is missing or invalid */
+      default: number;
+      /** the values are clamped to this range */
+      range?: readonly [number, number];
+    }
+  | {
+      type: "enumerated";
+      /** the valid lowercase values */
+      values: readonly string[];
+      /** the value when the attribute is missing or invalid */
+      default: string;
+    }
+);
+
+const media = ["audio", "video"];
+const forms = ["button", "fieldset", "input", "select", "textarea"];
+const cells = ["td", "th"];
+
+const reflections: Record<ReflectedProperty, Reflection> = {
+  id: { type: "string" },
+  className: { attribute: "class", type: "string" },
+  title: { type: "string" },
+  lang: { type: "string" },
+  dir: {
+    type: "enumerated",
+    values: ["ltr", "rtl", "auto"],
+    default: "",
+  },
+  hidden: { type: "boolean" },
+  href: { type: "url", elements: ["a", "area", "base", "link"] },
+  rel: { type: "string", elements: ["a", "area", "link"] },
+  target: { type: "string", elements: ["a", "area", "base", "form"] },
+  download: { type: "string", elements: ["a", "area"] },
+  alt: { type: "string", elements: ["area", "img", "input"] },
+  src: {
+    type: "url",
+    elements: [
+      ...media,
+      "embed",
+      "iframe",
+      "img",
+      "input",
+      "script",
+      "source",
+      "track",
+    ],
+  },
+  srcset: { type: "string", elements: ["img", "source"] },
+  sizes: { type: "string", elements: ["img", "link", "source"] },
+  width: {
+    type: "unsigned",
+    default: 0,
+    elements: ["img", "input", "source", "video"],
+  },
+  height: {
+    type: "unsigned",
+    default: 0,
+    elements: ["img", "input", "source", "video"],
+  },
+  type: {
+    type: "string",
+    elements: [
+      "a",
+      "button",
+      "embed",
+      "input",
+      "link",
+      "object",
+      "ol",
+      "script",
+      "source",
+    ],
+  },
+  name: {
+    type: "string",
+    elements: [...forms, "form", "iframe", "img", "map", "meta", "object"],
+  },
+  value: { type: "string", elements: ["button", "data", "input", "param"] },
+  placeholder: { type: "string", elements: ["input", "textarea"] },
+  disabled: { type: "boolean", elements: [...forms, "optgroup", "option"] },
+  required: { type: "boolean", elements: ["input", "select", "textarea"] },
+  readOnly: { type: "boolean", elements: ["input", "textarea"] },
+  multiple: { type: "boolean", elements: ["input", "select"] },
+  htmlFor: { attribute: "for", type: "string", elements: ["label", "output"] },
+  action: { type: "url", elements: ["form"] },
+  colSpan: { type: "unsigned", default: 1, range: [1, 1000], elements: cells },
+  rowSpan: { type: "unsigned", default: 1, range: [0, 65534], elements: cells },
+  span: {
+    type: "unsigned",
+    default: 1,
+    range: [1, 1000],
+    elements: ["col", "colgroup"],
+  },
+  start: { type: "long", default: 1, elements: ["ol"] },
+  reversed: { type: "boolean", elements: ["ol"] },
+  cite: { type: "url", elements: ["blockquote", "del", "ins", "q"] },
+  dateTime: { type: "string", elements: ["del", "ins", "time"] },
+  poster: { type: "url", elements: ["video"] },
+  controls: { type: "boolean", elements: media },
+  autoplay: { type: "boolean", elements: media },
+  loop: { type: "boolean", elements: media },
+  async: { type: "boolean", elements: ["script"] },
+  defer: { type: "boolean", elements: ["script"] },
+  open: { type: "boolean", elements: ["details", "dialog"] },
+  loading: {
+    type: "enumerated",
+    values: ["eager", "lazy"],
+    default: "eager",
+    elements: ["iframe", "img"],
+  },
+};
+
+const maxLong = 2147483647;
+
+/** url resolved against base, or null if it isn't a valid url */
+export function resolveUrl(url: string, base: string): string | null {
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return null;
+  }
+}
+
+/** parse an integer like html, or return null if it isn't one */
+function parseInteger(value: string | null): number | null {
+  const match = /^[\t\n\f\r ]*([+-]?\d+)/.exec(value ?? "");
+  const num = match ? Number(match[1]) : NaN;
+  return Math.abs(num) <= maxLong ? num : null;
+}
+
+/** the value of a reflected property */
+function getReflected(
+  elem: Element,
+  attribute: string,
+  reflection: Reflection
+): string | number | boolean {
+  if (reflection.type === "boolean") {
+    return elem.hasAttribute(attribute);
+  }
+  const value = elem.getAttribute(attribute);
+  if (reflection.type === "long" || reflection.type === "unsigned") {
+    const num = parseInteger(value);
+    if (num === null || (reflection.type === "unsigned" && num < 0)) {
+      return reflection.default;
+    }
+    const [min, max] = reflection.range ?? [-Infinity, Infinity];
+    return Math.min(Math.max(num, min), max);
+  } else if (reflection.type === "url") {
+    // NOTE the href of a base is resolved against the document, not itself
+    const base =
+      elem.localName === "base" ? elem.ownerDocument.URL : elem.baseURI;
+    return value === null ? "" : resolveUrl(value, base) ?? value;
+  } else if (reflection.type === "enumerated") {
+    const lower = value?.toLowerCase() ?? "";
+    return reflection.values.includes(lower) ? lower : reflection.default;
+  } else {
+    return value ?? "";
+  }
+}
+
+/** set the attribute of a reflected property */
+function setReflected(
+  elem: Element,
+  attribute: string,
+  reflection: Reflection,
+  value: unknown
+): void {
+  if (reflection.type === "boolean") {
+    if (value) {
+      elem.setAttribute(attribute, "");
+    } else {
+      elem.removeAttribute(attribute);
+    }
+  } else if (reflection.type === "long") {
+    elem.setAttribute(attribute, `${Number(value) | 0}`);
+  } else if (reflection.type === "unsigned") {
+    const num = Number(value) >>> 0;
+    elem.setAttribute(attribute, `${num > maxLong ? reflection.default : num}`);
+  } else {
+    elem.setAttribute(attribute, String(value));
+  }
+}
+
+/**
+ * define every reflected property on the prototype of an element class
+ *
+ * Like the browser, properties of other elements are undefined, and setting
+ * them only sets a plain property of that element.
+ */
+export function defineReflections(prototype: object): void {
+  for (const [property, reflection] of Object.entries(reflections)) {
+    const attribute = reflection.attribute ?? property.toLowerCase();
+    const elements = reflection.elements && new Set(reflection.elements);
+    /** if elem has the reflected property */
+    const reflects = (elem: Element): boolean =>
+      !elements ||
+      (elem.namespaceURI === htmlNamespace && elements.has(elem.localName));
+    Object.defineProperty(prototype, property, {
+      configurable: true,
+      get(this: Element): unknown {
+        return reflects(this)
+          ? getReflected(this, attribute, reflection)
+          : undefined;
+      },
+      set(this: Element, value: unknown): void {
+        if (reflects(this)) {
+          setReflected(this, attribute, reflection, value);
+        } else {
+          Object.defineProperty(this, property, {
+            configurable: true,
+            enumerable: true,
+            writable: true,
+            value,
+          });
+        }
+      },
+    });
+  }
+}
@@ -0,0 +1,185 @@
+import { JSDOM } from "jsdom";
+import { parse, parseFragment } from "parse5";
+import { treeAdapter } from ".";
+
+const content = `
+<!doctype html>
+<html>
+  <head><title>Title</title></head>
+  <body>
+    <article id="main" class="post featured">
+      <h1 id="title" lang="en-US">Title</h1>
+      <div id="content" class="content">
+        <p id="p1" class="lead">First <a id="a1" href="https://example.com">link</a></p>
+        <p id="p2">Second <a id="a2" href="/relative" rel="nofollow noopener">link</a> <a id="a3">anchor</a></p>
+        <!-- comment -->
+        <ul id="list">
+          <li id="li1" data-x="one">1</li>
+          <li id="li2" data-x="two">2</li>
+          <li id="li3" data-x="Three">3</li>
+          <li id="li4" data-x="">4</li>
+          <li id="li5" title="a b-c">5</li>
+        </ul>
+        <span id="empty"><!-- only a comment --></span>
+        <img id="img" src="test.png" alt="">
+      </div>
+    </article>
+    <aside id="aside" class="content sidebar">
+      <p id="p3">Side <a id="a4" href="#">note</a></p>
+    </aside>
+  </body>
+</html>`;
+
+describe("selectors", () => {
+  const dom = new JSDOM(content);
+  const doc = parse(content, { treeAdapter });
+
+  const selectors = [
+    "p",
+    "P",
+    "*",
+    "#main",
+    ".content",
+    ".content.sidebar",
+    "a[href]",
+    "article .content a[href]",
+    "div > p",
+    "body > p",
+    "h1 + div",
+    "h1 ~ *",
+    "li + li",
+    "ul + p",
+    "p, li, #aside",
+    "[data-x=two]",
+    "[data-x='three' i]",
+    '[data-x="three"]',
+    "[rel~=noopener]",
+    "[rel~='']",
+    "[lang|=en]",
+    "[title|=a]",
+    "[href^=https]",
+    "[href^='']",
+    "[href$=relative]",
+    "[href*=example]",
+    "[data-x]:not([data-x=''])",
+    "li:not(:first-child, :last-child)",
+    "li:first-child",
+    "li:last-child",
+    "li:only-child",
+    "a:only-child",
+    "li:nth-child(2n+1)",
+    "li:nth-child(odd)",
+    "li:nth-child(even)",
+    "li:nth-child(3)",
+    "li:nth-child(-n + 2)",
+    "li:nth-child(n)",
+    "li:nth-last-child(2)",
+    "p:first-of-type",
+    "a:last-of-type",
+    "img:only-of-type",
+    "p:nth-of-type(2)",
+    "a:nth-last-of-type(1)",
+    ":root",
+    "span:empty",
+    "li:empty",
+    "#li\\31",
+    "#\\6c i2",
+    "[data-x='t\\wo']",
+    "article#main.post.featured > div#content > ul > li[data-x]",
+  ];
+
+  test.each(selectors)("querySelectorAll(%p)", (selector) => {
+    const expected = [...dom.window.document.querySelectorAll(selector)].map(
+      (elem) => elem.id
+    );
+    const actual = doc.querySelectorAll(selector).map((elem) => elem.id);
+    expect(actual).toEqual(expected);
+    expect(doc.querySelector(selector)?.id).toBe(expected[0]);
+  });
+
+  test("scoped queries", () => {
+    const [div] = doc.getElementsByTagName("div");
+    expect(div.querySelectorAll("a").map((a) => a.id)).toEqual([
+      "a1",
+      "a2",
+      "a3",
+    ]);
+    // like the browser, the whole selector is matched against the document
+    expect(div.querySelectorAll("article a").map((a) => a.id)).toEqual([
+      "a1",
+      "a2",
+      "a3",
+    ]);
+    expect(div.querySelector("aside a")).toBeNull();
+  });
+
+  test("fragments", () => {
+    const frag = parseFragment(`<p class="a">one</p><p class="b">two</p>`, {
+      treeAdapter,
+    });
+    expect(frag.querySelectorAll("p.b").map((p) => p.textContent)).toEqual([
+      "two",
+    ]);
+    expect(frag.querySelector(":root")).toBeNull();
+    expect(frag.querySelector("div")).toBeNull();
+  });
+
+  test("#matches()", () => {
+    const [a] = doc.getElementsByTagName("a");
+    expect(a.matches("a[href]")).toBe(true);
+    expect(a.matches("#main a")).toBe(true);
+    expect(a.matches("aside a")).toBe(false);
+
+    const detached = doc.createElement("li");
+    expect(detached.matches("li:first-child:last-child")).toBe(true);
+    expect(detached.matches("ul > li")).toBe(false);
+    expect(detached.matches("ul li, li + li, li ~ li")).toBe(false);
+  });
+
+  test("#closest()", () => {
+    const [a] = doc.getElementsByTagName("a");
+    expect(a.closest("a")).toBe(a);
+    expect(a.closest("div")?.id).toBe("content");
+    expect(a.closest(".post")?.id).toBe("main");
+    expect(a.closest("aside")).toBeNull();
+  });
+
+  test.each([
+    ["", "expected a selector but found end of input"],
+    ["p,", "expected a selector but found end of input"],
+    ["p >", "expected a selector but found end of input"],
+    ["> p", 'expected a selector but found ">"'],
+    ["p)", 'unexpected ")"'],
+    ["#", "expected an id"],
+    [".1", 'expected an identifier but found "1"'],
+    ["[href", "unexpected end of input in attribute selector"],
+    ["[href=a", 'expected "]" but found end of input'],
+    ["[href!=a]", 'unexpected "!" in attribute selector'],
+    ["[href='a]", "unterminated string"],
+    ["[svg|href]", "namespaced attributes are not supported"],
+    ["svg|a", "namespaced type selectors are not supported"],
+    ["p::before", "pseudo-elements are not supported"],
+    ["a:hover", 'unsupported pseudo-class ":hover"'],
+    [":first-child(1)", 'unsupported pseudo-class ":first-child("'],
+    [":nth-child(x)", 'invalid argument to ":nth-child()"'],
+    [":nth-child(2", 'invalid argument to ":nth-child()"'],
+    [":not(p", 'expected ")" but found end of input'],
+  ])("invalid selector %p", (selector, reason) => {
+    expect(() => doc.querySelectorAll(selector)).toThrow(SyntaxError);
+    expect(() => doc.querySelector(selector)).toThrow(reason);
+  });
+
+  test("escapes", () => {
+    const frag = parseFragment(
+      `<p id="a:b" class="x&#xfffd;" data-v="q&quot;q"></p>`,
+      { treeAdapter }
+    );
+    const [p] = frag.children;
+    expect(frag.querySelector("#a\\:b")).toBe(p);
+    expect(frag.querySelector(".x\\0")).toBe(p);
+    expect(frag.querySelector(".x\\110000")).toBe(p);
+    expect(frag.querySelector("[data-v='q\\\"q']")).toBe(p);
+    expect(frag.querySelector('[data-v="q\\\nq"]')).toBeNull();
+    expect(frag.querySelector(".x\\")).toBe(p);
+  });
+});
@@ -0,0 +1,494 @@
+/**
+ * A small css selector engine
+ *
+ * This supports the subset of selectors level 4 that's useful for static
+ * documents: type, universal, id, class and attribute selectors, the four
+ * combinators, selector lists, `:not()`, and the structural pseudo-classes.
+ * Anything else throws a `SyntaxError` like a browser would.
+ *
+ * @packageDocumentation
+ */
+import { Element, NodeType } from ".";
+import { htmlNamespace } from "./html";
+
+/** a combinator relating a compound selector to the one on its left */
+type Combinator = " " | ">" | "+" | "~";
+
+/** attribute value matching operators */
+type AttributeOperator = "=" | "~=" | "|=" | "^=" | "$=" | "*=";
+
+/** a single simple selector */
+type SimpleSelector =
+  | { kind: "type"; name: string }
+  | { kind: "id"; name: string }
+  | { kind: "class"; name: string }
+  | {
+      kind: "attribute";
+      name: string;
+      operator: AttributeOperator | null;
+      value: string;
+      insensitive: boolean;
+    }
+  | { kind: "not"; selectors: SelectorList }
+  | { kind: "nth"; a: number; b: number; last: boolean; ofType: boolean }
+  | { kind: "empty" }
+  | { kind: "root" };
+
+/** a compound selector and how it relates to the compound on its left */
+interface Compound {
+  simple: SimpleSelector[];
+  combinator: Combinator | null;
+}
+
+/** a parsed selector list, each complex selector stored left to right */
+export type SelectorList = Compound[][];
+
+const whitespace = /[ \t\n\r\f]/;
+const nameChar = /[-\w\u0080-\uffff]/;
+const attributeOperator = /^[~|^$*]?=/;
+
+/** the an+b arguments for each structural pseudo-class */
+const structural: Record<
+  string,
+  { a: number; b: number; last: boolean; ofType: boolean }[]
+> = {
+  "first-child": [{ a: 0, b: 1, last: false, ofType: false }],
+  "last-child": [{ a: 0, b: 1, last: true, ofType: false }],
+  "only-child": [
+    { a: 0, b: 1, last: false, ofType: false },
+    { a: 0, b: 1, last: true, ofType: false },
+  ],
+  "first-of-type": [{ a: 0, b: 1, last: false, ofType: true }],
+  "last-of-type": [{ a: 0, b: 1, last: true, ofType: true }],
+  "only-of-type": [
+    { a: 0, b: 1, last: false, ofType: true },
+    { a: 0, b: 1, last: true, ofType: true },
+  ],
+};
+
+/** the nth pseudo-classes that take an an+b argument */
+const nth: Record<string, { last: boolean; ofType: boolean }> = {
+  "nth-child": { last: false, ofType: false },
+  "nth-last-child": { last: true, ofType: false },
+  "nth-of-type": { last: false, ofType: true },
+  "nth-last-of-type": { last: true, ofType: true },
+};
+
+/** parse the an+b micro syntax */
+function parseNth(arg: string): { a: number; b: number } | null {
+  const norm = arg.trim().toLowerCase();
+  if (norm === "odd") {
+    return { a: 2, b: 1 };
+  } else if (norm === "even") {
+    return { a: 2, b: 0 };
+  }
+  const match = /^(?:([+-]?\d*)n(?:\s*([+-])\s*(\d+))?|([+-]?\d+))$/.exec(norm);
+  if (!match) {
+    return null;
+  }
+  const [, coef, sign, offset, only] = match;
+  if (only !== undefined) {
+    return { a: 0, b: parseInt(only) };
+  }
+  const a =
+    coef === "" || coef === "+" ? 1 : coef === "-" ? -1 : parseInt(coef);
+  const b = offset === undefined ? 0 : parseInt(sign + offset);
+  return { a, b };
+}
+
+/** parse a selector list, throwing a SyntaxError if it's invalid or unsupported */
+function parse(source: string): SelectorList {
+  let pos = 0;
+
+  function fail(reason: string): never {
+    throw new SyntaxError(
+      `'${source}' is not a valid selector: ${reason} at position ${pos}`
+    );
+  }
+
+  function peek(): string {
+    return source.charAt(pos);
+  }
+
+  function describe(char: string): string {
+    return char ? `"${char}"` : "end of input";
+  }
+
+  function expect(char: string): void {
+    if (peek() !== char) {
+      fail(`expected "${char}" but found ${describe(peek())}`);
+    }
+    pos++;
+  }
+
+  function skipWhitespace(): boolean {
+    const start = pos;
+    while (whitespace.test(peek())) pos++;
+    return pos > start;
+  }
+
+  function escape(): string {
+    pos++; // backslash
+    const hex = /^[0-9a-fA-F]{1,6}[ \t\n\r\f]?/.exec(source.slice(pos));
+    if (hex) {
+      pos += hex[0].length;
+      const code = parseInt(hex[0], 16);
+      return code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)
+        ? "\ufffd"
+        : String.fromCodePoint(code);
+    } else if (pos < source.length) {
+      return source.charAt(pos++);
+    } else {
+      return "\ufffd";
+    }
+  }
+
+  function name(): string {
+    const chars = [];
+    for (;;) {
+      const char = peek();
+      if (char === "\\") {
+        chars.push(escape());
+      } else if (char && nameChar.test(char)) {
+        chars.push(char);
+        pos++;
+      } else {
+        return chars.join("");
+      }
+    }
+  }
+
+  function ident(): string {
+    const start = pos;
+    const res = name();
+    if (!res || /^-?\d/.test(source.slice(start))) {
+      pos = start;
+      fail(`expected an identifier but found ${describe(peek())}`);
+    }
+    return res;
+  }
+
+  function str(): string {
+    const quote = source.charAt(pos++);
+    const chars = [];
+    for (;;) {
+      const char = peek();
+      if (char === quote) {
+        pos++;
+        return chars.join("");
+      } else if (!char) {
+        fail("unterminated string");
+      } else if (char === "\\" && source.charAt(pos + 1) === "\n") {
+        pos += 2;
+      } else if (char === "\\") {
+        chars.push(escape());
+      } else {
+        chars.push(char);
+        pos++;
+      }
+    }
+  }
+
+  function attribute(): SimpleSelector {
+    expect("[");
+    skipWhitespace();
+    const attr = ident();
+    if (peek() === "|" && source.charAt(pos + 1) !== "=") {
+      fail("namespaced attributes are not supported");
+    }
+    skipWhitespace();
+    if (peek() === "]") {
+      pos++;
+      return {
+        kind: "attribute",
+        name: attr,
+        operator: null,
+        value: "",
+        insensitive: false,
+      };
+    }
+    const [operator] = attributeOperator.exec(source.slice(pos)) ?? [];
+    if (!operator) fail(`unexpected ${describe(peek())} in attribute selector`);
+    pos += operator.length;
+    skipWhitespace();
+    const value = peek() === '"' || peek() === "'" ? str() : ident();
+    skipWhitespace();
+    let insensitive = false;
+    if (/^[is]$/i.test(peek())) {
+      insensitive = peek().toLowerCase() === "i";
+      pos++;
+      skipWhitespace();
+    }
+    expect("]");
+    return {
+      kind: "attribute",
+      name: attr,
+      operator: operator as AttributeOperator,
+      value,
+      insensitive,
+    };
+  }
+
+  function pseudo(): SimpleSelector[] {
+    expect(":");
+    if (peek() === ":") fail("pseudo-elements are not supported");
+    const pseudoName = ident().toLowerCase();
+    const functional = peek() === "(";
+    if (functional) pos++;
+
+    const simple = structural[pseudoName];
+    const args = nth[pseudoName];
+    if (pseudoName === "not" && functional) {
+      const selectors = list();
+      expect(")");
+      return [{ kind: "not", selectors }];
+    } else if (args && functional) {
+      const close = source.indexOf(")", pos);
+      const parsed = close === -1 ? null : parseNth(source.slice(pos, close));
+      if (!parsed) fail(`invalid argument to ":${pseudoName}()"`);
+      pos = close + 1;
+      return [{ kind: "nth", ...parsed, ...args }];
+    } else if (simple && !functional) {
+      return simple.map((arg) => ({ kind: "nth", ...arg }));
+    } else if (pseudoName === "empty" && !functional) {
+      return [{ kind: "empty" }];
+    } else if (pseudoName === "root" && !functional) {
+      return [{ kind: "root" }];
+    } else {
+      fail(`unsupported pseudo-class ":${pseudoName}${functional ? "(" : ""}"`);
+    }
+  }
+
+  function compound(): SimpleSelector[] {
+    const simple: SimpleSelector[] = [];
+    if (peek() === "*") {
+      pos++;
+      simple.push({ kind: "type", name: "*" });
+    } else if (peek() === "\\" || nameChar.test(peek())) {
+      simple.push({ kind: "type", name: ident() });
+    }
+    if (peek() === "|") fail("namespaced type selectors are not supported");
+    for (;;) {
+      const char = peek();
+      if (char === "#") {
+        pos++;
+        const id = name();
+        if (!id) fail("expected an id");
+        simple.push({ kind: "id", name: id });
+      } else if (char === ".") {
+        pos++;
+        simple.push({ kind: "class", name: ident() });
+      } else if (char === "[") {
+        simple.push(attribute());
+      } else if (char === ":") {
+        simple.push(...pseudo());
+      } else if (!simple.length) {
+        fail(`expected a selector but found ${describe(char)}`);
+      } else {
+        return simple;
+      }
+    }
+  }
+
+  function complex(): Compound[] {
+    const compounds: Compound[] = [];
+    let combinator: Combinator | null = null;
+    for (;;) {
+      compounds.push({ simple: compound(), combinator });
+      const spaced = skipWhitespace();
+      const char = peek();
+      if (char === ">" || char === "+" || char === "~") {
+        pos++;
+        skipWhitespace();
+        combinator = char;
+      } else if (spaced && char && char !== "," && char !== ")") {
+        combinator = " ";
+      } else {
+        return compounds;
+      }
+    }
+  }
+
+  function list(): SelectorList {
+    const selectors = [];
+    for (;;) {
+      skipWhitespace();
+      selectors.push(complex());
+      skipWhitespace();
+      if (peek() === ",") {
+        pos++;
+      } else {
+        return selectors;
+      }
+    }
+  }
+
+  const selectors = list();
+  if (pos < source.length) fail(`unexpected ${describe(peek())}`);
+  return selectors;
+}
+
+/** the one-based position of an element among its matching siblings */
+function position(element: Element, last: boolean, ofType: boolean): number {
+  let index = 1;
+  let sibling = last
+    ? element.nextElementSibling
+    : element.previousElementSibling;
+  while (sibling) {
+    if (
+      !ofType ||
+      (sibling.localName === element.localName &&
+        sibling.namespaceURI === element.namespaceURI)
+    ) {
+      index++;
+    }
+    sibling = last
+      ? sibling.nextElementSibling
+      : sibling.previousElementSibling;
+  }
+  return index;
+}
+
+/** test an attribute selector against an element */
+function matchesAttribute(
+  element: Element,
+  simple: Extract<SimpleSelector, { kind: "attribute" }>
+): boolean {
+  const name =
+    element.namespaceURI === htmlNamespace
+      ? simple.name.toLowerCase()
+      : simple.name;
+  const raw = element.getAttribute(name);
+  if (raw === null) {
+    return false;
+  }
+  const actual = simple.insensitive ? raw.toLowerCase() : raw;
+  const value = simple.insensitive ? simple.value.toLowerCase() : simple.value;
+  switch (simple.operator) {
+    case null:
+      return true;
+    case "=":
+      return actual === value;
+    case "~=":
+      return (
+        !!value &&
+        !whitespace.test(value) &&
+        actual.split(/[ \t\n\r\f]+/).includes(value)
+      );
+    case "|=":
+      return actual === value || actual.startsWith(`${value}-`);
+    case "^=":
+      return !!value && actual.startsWith(value);
+    case "$=":
+      return !!value && actual.endsWith(value);
+    case "*=":
+      return !!value && actual.includes(value);
+  }
+}
+
+/** test a simple selector against an element */
+function matchesSimple(element: Element, simple: SimpleSelector): boolean {
+  switch (simple.kind) {
+    case "type":
+      return (
+        simple.name === "*" ||
+        element.localName ===
+          (element.namespaceURI === htmlNamespace
+            ? simple.name.toLowerCase()
+            : simple.name)
+      );
+    case "id":
+      return element.id === simple.name;
+    case "class":
+      return element.className.split(/[ \t\n\r\f]+/).includes(simple.name);
+    case "attribute":
+      return matchesAttribute(element, simple);
+    case "not":
+      return !matchesSelector(element, simple.selectors);
+    case "nth": {
+      const diff = position(element, simple.last, simple.ofType) - simple.b;
+      return simple.a === 0
+        ? diff === 0
+        : diff % simple.a === 0 && diff / simple.a >= 0;
+    }
+    case "empty":
+      return element.childNodes.every(
+        (child) =>
+          child.nodeType === NodeType.Comment ||
+          (child.nodeType === NodeType.Text && !child.value)
+      );
+    case "root": {
+      const parent = element.parentNode;
+      return (
+        parent?.nodeType === NodeType.Document &&
+        parent.firstElementChild === element
+      );
+    }
+  }
+}
+
+/** test the compounds of a complex selector up to index against an element */
+function matchesComplex(
+  element: Element,
+  compounds: Compound[],
+  index: number
+): boolean {
+  const { simple, combinator } = compounds[index]!;
+  if (!simple.every((sel) => matchesSimple(element, sel))) {
+    return false;
+  } else if (combinator === " " || combinator === ">") {
+    let parent = element.parentElement;
+    while (parent) {
+      if (matchesComplex(parent, compounds, index - 1)) {
+        return true;
+      } else if (combinator === ">") {
+        return false;
+      }
+      parent = parent.parentElement;
+    }
+    return false;
+  } else if (combinator === "+" || combinator === "~") {
+    let sibling = element.previousElementSibling;
+    while (sibling) {
+      if (matchesComplex(sibling, compounds, index - 1)) {
+        return true;
+      } else if (combinator === "+") {
+        return false;
+      }
+      sibling = sibling.previousElementSibling;
+    }
+    return false;
+  } else {
+    return true;
+  }
+}
+
+const cache = new Map<string, SelectorList>();
+
+/**
+ * parse a selector list
+ *
+ * Parsed selectors are cached, since the same selectors tend to be used
+ * repeatedly.
+ *
+ * @throws SyntaxError if the selector is invalid or unsupported
+ */
+export function compileSelector(selector: string): SelectorList {
+  let compiled = cache.get(selector);
+  if (!compiled) {
+    compiled = parse(selector);
+    if (cache.size >= 256) cache.clear();
+    cache.set(selector, compiled);
+  }
+  return compiled;
+}
+
+/** test if an element matches any of the selectors */
+export function matchesSelector(
+  element: Element,
+  selectors: SelectorList
+): boolean {
+  return selectors.some((compounds) =>
+    matchesComplex(element, compounds, compounds.length - 1)
+  );
+}
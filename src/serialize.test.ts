@@ -0,0 +1,232 @@
+import { html, parse, parseFragment, serialize, serializeOuter } from "parse5";
+import {
+  createTreeAdapter,
+  serialize as serializeNode,
+  Template,
+  treeAdapter,
+} from ".";
+
+const fixtures = [
+  `<p class="a &amp; b" title='say "hi"' data-x="&nbsp;">text</p>`,
+  `<input disabled value=""><br><img src="a.png" alt="">`,
+  `<p>1 &lt; 2 &amp;&amp; 3 &gt; 2&nbsp;</p>`,
+  `<script>if (a < b && c > d) { s = "</p>"; }</script>`,
+  `<style>p > a::before { content: "&amp;"; }</style>`,
+  `<noscript><b>&amp;</b></noscript><xmp>&lt;</xmp><iframe>a & b</iframe>`,
+  `<template><p>inside &amp; out</p><br></template>`,
+  `<!-- a comment --><p>after</p><!---->`,
+  `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"><use xlink:href="#a"/><style>a &amp; b</style></svg>`,
+  `<math xml:lang="en"><mi>x</mi></math>`,
+  `<svg viewBox="0 0 10 10"><defs><linearGradient id="g"><stop offset="0"/></linearGradient><clipPath id="c"><rect width="5" height="5"/></clipPath></defs><foreignObject><p>html &amp; <br>inside</p></foreignObject><path d="M0 0"/><title>a &lt; b</title></svg>`,
+  `<p>x<math><mi>x</mi><annotation-xml encoding="text/html"><b>bold</b></annotation-xml></math></p>`,
+  `<textarea>
+text</textarea><pre>
+pre</pre>`,
+  `<table><tr><td>cell</td></tr></table>`,
+  `<ul><li>one<li>two</ul><p>unclosed<div>block</div>`,
+];
+
+describe("serialize", () => {
+  test.each(fixtures)("#innerHTML round trip %p", (content) => {
+    const frag = parseFragment(`<div>${content}</div>`, { treeAdapter });
+    const [div] = frag.children;
+    expect(div.innerHTML).toBe(serialize(div, { treeAdapter }));
+    expect(div.outerHTML).toBe(serializeOuter(div, { treeAdapter }));
+
+    // parsing again serializes identically
+    const reparsed = parseFragment(div.outerHTML, { treeAdapter });
+    expect(reparsed.children[0].outerHTML).toBe(div.outerHTML);
+  });
+
+  test("documents", () => {
+    const content = `<!DOCTYPE html><html lang="en"><head><title>a &amp; b</title></head><body><p>text</p></body></html>`;
+    const doc = parse(content, { treeAdapter });
+    expect(doc.documentElement.outerHTML).toBe(
+      serializeOuter(doc.documentElement, { treeAdapter })
+    );
+    expect(doc.documentElement.outerHTML).toBe(
+      content.replace("<!DOCTYPE html>", "")
+    );
+  });
+
+  test("escaping", () => {
+    const [div] = parseFragment("<div></div>", { treeAdapter }).children;
+    div.setAttribute("title", `"a" & "b"\u00a0<c>`);
+    div.setAttribute("empty", "");
+    div.textContent = `"a" & "b"\u00a0<c>`;
+    expect(div.outerHTML).toBe(
+      `<div title="&quot;a&quot; &amp; &quot;b&quot;&nbsp;<c>" empty="">"a" &amp; "b"&nbsp;&lt;c&gt;</div>`
+    );
+  });
+
+  test("namespaced attributes", () => {
+    const [div] = parseFragment("<div></div>", { treeAdapter }).children;
+    div.attributes.push(
+      { name: "a", namespace: "urn:a", prefix: "x", value: "" },
+      { name: "b", namespace: "urn:b", value: "" }
+    );
+    expect(div.outerHTML).toBe(`<div x:a="" b=""></div>`);
+  });
+
+  test("void elements", () => {
+    const [br] = parseFragment("<br>", { treeAdapter }).children;
+    br.appendChild(treeAdapter.createElement("b", html.NS.HTML, []));
+    expect(br.outerHTML).toBe("<br>");
+    expect(br.innerHTML).toBe("");
+  });
+
+  test("templates", () => {
+    const [template] = parseFragment("<template><p>a</p></template>", {
+      treeAdapter,
+    }).children;
+    expect(template.childNodes).toHaveLength(0);
+    expect((template as Template).content.childNodes).toHaveLength(1);
+    expect(template.innerHTML).toBe("<p>a</p>");
+    expect(template.outerHTML).toBe("<template><p>a</p></template>");
+
+    const created = treeAdapter.createElement("template", html.NS.HTML, []);
+    const { content } = created as Template;
+    content.appendChild(treeAdapter.createElement("p", html.NS.HTML, []));
+    expect(created.innerHTML).toBe("<p></p>");
+  });
+
+  test("#outerHTML =", () => {
+    const adapter = createTreeAdapter({ parseFragment });
+    const doc = parse(`<div><p id="a">a</p><p id="b">b</p></div>`, {
+      treeAdapter: adapter,
+    });
+    const [div] = doc.body.children;
+    const [first, second] = div.children;
+    first.outerHTML = `<h1>one</h1>text<h2>two</h2>`;
+    expect(first.parentNode).toBeNull();
+    expect(div.innerHTML).toBe(`<h1>one</h1>text<h2>two</h2><p id="b">b</p>`);
+    expect(div.childNodes.every((node) => node.parentNode === div)).toBe(true);
+
+    // parsed in the context of the parent
+    const [table] = parseFragment("<table><tbody></tbody></table>", {
+      treeAdapter: adapter,
+    }).children;
+    const [tbody] = table.children;
+    tbody.outerHTML = "<tr><td>cell</td></tr>";
+    expect(table.innerHTML).toBe("<tbody><tr><td>cell</td></tr></tbody>");
+
+    // fragments parse in the body context
+    const frag = parseFragment("<p>a</p>", { treeAdapter: adapter });
+    const [para] = frag.children;
+    para.outerHTML = "<tr><td>cell</td></tr>";
+    expect(frag.childNodes.map((node) => node.nodeName)).toEqual(["#text"]);
+
+    second.outerHTML = "";
+    expect(second.parentNode).toBeNull();
+    expect(div.lastElementChild?.tagName).toBe("H2");
+
+    // detached elements are unaffected
+    second.outerHTML = "<b>b</b>";
+    expect(second.outerHTML).toBe(`<p id="b">b</p>`);
+    const created = doc.createElement("p");
+    created.outerHTML = "<b>b</b>";
+    expect(created.outerHTML).toBe("<p></p>");
+
+    let err: unknown;
+    try {
+      doc.documentElement.outerHTML = "<html></html>";
+    } catch (caught) {
+      err = caught;
+    }
+    expect(err).toBeInstanceOf(DOMException);
+    const { name, message } = err as DOMException;
+    expect({ name, message }).toEqual({
+      name: "NoModificationAllowedError",
+      message: "can't set outerHTML of an element in a document",
+    });
+  });
+
+  test("#serialize() documents", () => {
+    const content = `<!DOCTYPE html><html><head><title>Title</title></head><body><!-- comment --><p>text</p></body></html>`;
+    const doc = parse(content, { treeAdapter });
+    expect(serializeNode(doc)).toBe(content);
+    expect(serializeNode(doc)).toBe(serialize(doc, { treeAdapter }));
+    expect(serializeNode(doc.body)).toBe(doc.body.outerHTML);
+  });
+
+  test("#serialize() doctypes", () => {
+    for (const doctype of [
+      `<!DOCTYPE html PUBLIC "-//W3C//DTD HTML 4.01//EN" "http://www.w3.org/TR/html4/strict.dtd">`,
+      `<!DOCTYPE html PUBLIC "-//W3C//DTD HTML 4.01//EN">`,
+      `<!DOCTYPE html SYSTEM "http://www.w3.org/TR/html4/strict.dtd">`,
+    ]) {
+      const doc = parse(`${doctype}<html><head></head><body></body></html>`, {
+        treeAdapter,
+      });
+      expect(serializeNode(doc)).toBe(
+        `${doctype}<html><head></head><body></body></html>`
+      );
+      expect(serializeNode(doc.childNodes[0])).toBe(doctype);
+    }
+  });
+
+  test("#serialize() fragments", () => {
+    const content = `<p>one</p><!-- comment -->text<p>two</p>`;
+    const frag = parseFragment(content, { treeAdapter });
+    expect(serializeNode(frag)).toBe(content);
+    expect(serializeNode(frag, { comments: false })).toBe(
+      `<p>one</p>text<p>two</p>`
+    );
+  });
+
+  test("#serialize() pretty", () => {
+    const content = `<!DOCTYPE html>
+<html><head><title>Title</title><style>
+  p { color: red; }
+</style></head><body>
+  <!-- comment -->
+  <div><p>Some <b>bold</b> text</p><ul><li>one</li><li><br></li></ul></div>
+  <pre>
+  indented
+</pre><template><p>template</p></template><div>  </div>
+</body></html>`;
+    const doc = parse(content, { treeAdapter });
+    expect(serializeNode(doc, { pretty: true })).toBe(`<!DOCTYPE html>
+<html>
+  <head>
+    <title>Title</title>
+    <style>
+  p { color: red; }
+</style>
+  </head>
+  <body>
+    <!-- comment -->
+    <div>
+      <p>Some <b>bold</b> text</p>
+      <ul>
+        <li>one</li>
+        <li>
+          <br>
+        </li>
+      </ul>
+    </div>
+    <pre>  indented
+</pre>
+    <template>
+      <p>template</p>
+    </template>
+    <div></div>
+  </body>
+</html>`);
+
+    const [div] = doc.body.children;
+    expect(serializeNode(div, { pretty: true, indent: "\t", comments: false }))
+      .toBe(`<div>
+\t<p>Some <b>bold</b> text</p>
+\t<ul>
+\t\t<li>one</li>
+\t\t<li>
+\t\t\t<br>
+\t\t</li>
+\t</ul>
+</div>`);
+    expect(serializeNode(doc, { pretty: true, comments: false })).not.toContain(
+      "comment"
+    );
+  });
+});
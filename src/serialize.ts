@@ -0,0 +1,277 @@
+/**
+ * html serialization
+ *
+ * @see {@link https://html.spec.whatwg.org/multipage/parsing.html#serialising-html-fragments}
+ */
+import {
+  Attribute,
+  ChildNode,
+  HasChildren,
+  Node,
+  NodeType,
+  ParentNode,
+  Template,
+} from ".";
+import { isHtml } from "./html";
+
+/** elements that never have children or an end tag */
+const voidElements = [
+  "area",
+  "base",
+  "basefont",
+  "bgsound",
+  "br",
+  "col",
+  "embed",
+  "frame",
+  "hr",
+  "img",
+  "input",
+  "keygen",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+];
+
+/** elements whose text is serialized without escaping */
+const rawTextElements = [
+  "iframe",
+  "noembed",
+  "noframes",
+  "noscript",
+  "plaintext",
+  "script",
+  "style",
+  "xmp",
+];
+
+/** elements whose whitespace is significant */
+const preformattedElements = ["listing", "pre", "textarea", ...rawTextElements];
+
+const escapes: Record<string, string> = {
+  "&": "&amp;",
+  "\u00a0": "&nbsp;",
+  '"': "&quot;",
+  "<": "&lt;",
+  ">": "&gt;",
+};
+
+function escapeText(text: string): string {
+  return text.replace(/[&\u00a0<>]/g, (c) => escapes[c]);
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/[&\u00a0"]/g, (c) => escapes[c]);
+}
+
+/** the serialized name of an attribute including its namespace prefix */
+function attributeName({ name, namespace, prefix }: Attribute): string {
+  if (!namespace) {
+    return name;
+  } else if (namespace === "http://www.w3.org/XML/1998/namespace") {
+    return `xml:${name}`;
+  } else if (namespace === "http://www.w3.org/2000/xmlns/") {
+    return name === "xmlns" ? name : `xmlns:${name}`;
+  } else if (namespace === "http://www.w3.org/1999/xlink") {
+    return `xlink:${name}`;
+  } else {
+    return prefix ? `${prefix}:${name}` : name;
+  }
+}
+
+/** the node that holds the serialized children, the content for templates */
+function containerOf(parent: ParentNode): HasChildren {
+  if (isHtml(parent, "template")) {
+    return (parent as Template).content;
+  } else {
+    return parent;
+  }
+}
+
+/** options for {@link serialize} */
+export interface SerializeOptions {
+  /**
+   * put nested elements on their own indented lines
+   *
+   * Only elements that contain no text besides whitespace are spread over
+   * lines, everything else, including preformatted elements, is serialized as
+   * is. This may still add whitespace between elements that didn't have any.
+   *
+   * @defaultValue false
+   */
+  pretty?: boolean;
+
+  /**
+   * the string used for each level of indentation when pretty printing
+   *
+   * @defaultValue two spaces
+   */
+  indent?: string;
+
+  /**
+   * include comments
+   *
+   * @defaultValue true
+   */
+  comments?: boolean;
+}
+
+/** the resolved settings of a serialization */
+interface Settings {
+  /** the indent for each level, or null if not pretty printing */
+  indent: string | null;
+  /** if comments are included */
+  comments: boolean;
+  /** if doctypes include their public and system ids */
+  identifiers: boolean;
+}
+
+const fragmentSettings: Settings = {
+  indent: null,
+  comments: true,
+  identifiers: false,
+};
+
+/** if all text in children is whitespace, so they can be indented */
+function isIndentable(container: HasChildren): boolean {
+  for (let child = container.firstChild; child; child = child.nextSibling) {
+    if (child.nodeType === NodeType.Text && /\S/.test(child.value)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/** serialized strings of the children of parent at an indentation level */
+function* serializeChildren(
+  parent: ParentNode,
+  settings: Settings,
+  level: number
+): IterableIterator<string> {
+  const container = containerOf(parent);
+  const { indent } = settings;
+  if (indent === null || isHtml(parent, ...preformattedElements)) {
+    const compact = indent === null ? settings : { ...settings, indent: null };
+    for (let child = container.firstChild; child; child = child.nextSibling) {
+      yield* serializeNode(child, compact, level);
+    }
+  } else if (!isIndentable(container)) {
+    yield* serializeChildren(parent, { ...settings, indent: null }, level);
+  } else {
+    let empty = true;
+    for (let child = container.firstChild; child; child = child.nextSibling) {
+      if (
+        child.nodeType !== NodeType.Text &&
+        (settings.comments || child.nodeType !== NodeType.Comment)
+      ) {
+        // NOTE top level nodes don't start on a new line
+        if (level || !empty) {
+          yield "\n";
+          yield indent.repeat(level);
+        }
+        empty = false;
+        yield* serializeNode(child, settings, level);
+      }
+    }
+    if (level && !empty) {
+      yield "\n";
+      yield indent.repeat(level - 1);
+    }
+  }
+}
+
+/** serialized strings of node at an indentation level */
+function* serializeNode(
+  node: ChildNode,
+  settings: Settings,
+  level: number
+): IterableIterator<string> {
+  if (node.nodeType === NodeType.Element) {
+    const tag = node.localName;
+    yield "<";
+    yield tag;
+    for (const attr of node.attributes) {
+      yield " ";
+      yield attributeName(attr);
+      yield '="';
+      yield escapeAttribute(attr.value);
+      yield '"';
+    }
+    yield ">";
+    if (!isHtml(node, ...voidElements)) {
+      yield* serializeChildren(node, settings, level + 1);
+      yield "</";
+      yield tag;
+      yield ">";
+    }
+  } else if (node.nodeType === NodeType.Text) {
+    yield isHtml(node.parentNode, ...rawTextElements)
+      ? node.value
+      : escapeText(node.value);
+  } else if (node.nodeType === NodeType.Comment) {
+    if (settings.comments) {
+      yield "<!--";
+      yield node.data;
+      yield "-->";
+    }
+  } else {
+    const { name, publicId, systemId } = node;
+    yield "<!DOCTYPE ";
+    yield name;
+    if (settings.identifiers && publicId) {
+      yield ` PUBLIC "${publicId}"`;
+      if (systemId) {
+        yield ` "${systemId}"`;
+      }
+    } else if (settings.identifiers && systemId) {
+      yield ` SYSTEM "${systemId}"`;
+    }
+    yield ">";
+  }
+}
+
+/** the html serialization of parent's children */
+export function innerHtml(parent: ParentNode): string {
+  // NOTE void elements never have serialized children
+  return isHtml(parent, ...voidElements)
+    ? ""
+    : [...serializeChildren(parent, fragmentSettings, 0)].join("");
+}
+
+/** the html serialization of node */
+export function outerHtml(node: ChildNode): string {
+  return [...serializeNode(node, fragmentSettings, 0)].join("");
+}
+
+/**
+ * serialize any node to html
+ *
+ * Documents and fragments serialize their children, so a parsed document
+ * serializes back into a full html page including its doctype. Without
+ * options, elements serialize the same as {@link Element#outerHTML}.
+ *
+ * @example
+ * ```ts
+ * const doc = parse(content, { treeAdapter });
+ * const html = serialize(doc, { pretty: true, comments: false });
+ * ```
+ */
+export function serialize(
+  node: Node,
+  { pretty = false, indent = "  ", comments = true }: SerializeOptions = {}
+): string {
+  const settings = {
+    indent: pretty ? indent : null,
+    comments,
+    identifiers: true,
+  };
+  const strings =
+    node.nodeType === NodeType.Document ||
+    node.nodeType === NodeType.DocumentFragment
+      ? serializeChildren(node, settings, 0)
+      : serializeNode(node, settings, 0);
+  return [...strings].join("");
+}
@@ -0,0 +1,145 @@
+import { Readable } from "node:stream";
+import { parseStream, StreamLimitError } from "./stream";
+
+const encoder = new TextEncoder();
+
+/** a web stream of chunks that notes when it's canceled */
+function webStream(chunks: readonly (string | Uint8Array)[]): {
+  stream: ReadableStream<string | Uint8Array>;
+  canceled: () => boolean;
+} {
+  let cancel = false;
+  let index = 0;
+  const stream = new ReadableStream<string | Uint8Array>({
+    pull(controller) {
+      if (index < chunks.length) {
+        controller.enqueue(chunks[index++]);
+      } else {
+        controller.close();
+      }
+    },
+    cancel() {
+      cancel = true;
+    },
+  });
+  return { stream, canceled: () => cancel };
+}
+
+describe("stream", () => {
+  test("node streams", async () => {
+    const chunks = ["<!doctype html><title>Ti", "tle</title><p>a", "</p>"];
+    const doc = await parseStream(Readable.from(chunks), {
+      url: "https://example.com/",
+    });
+    expect(doc.title).toBe("Title");
+    expect(doc.body.innerHTML).toBe("<p>a</p>");
+    expect(doc.URL).toBe("https://example.com/");
+    doc.body.innerHTML = "<b>b</b>";
+    expect(doc.body.firstElementChild?.tagName).toBe("B");
+
+    // bytes are decoded even when characters are split between chunks
+    const bytes = encoder.encode("<p>café</p>");
+    const split = Readable.from([bytes.slice(0, 7), bytes.slice(7)]);
+    const decoded = await parseStream(split);
+    expect(decoded.body.textContent).toBe("café");
+  });
+
+  test("web streams", async () => {
+    const bytes = encoder.encode("<template><b>☃</b></template>");
+    const { stream, canceled } = webStream([
+      bytes.slice(0, 13),
+      bytes.slice(13, 15),
+      bytes.slice(15),
+    ]);
+    const doc = await parseStream(stream);
+    expect(doc.head.innerHTML).toBe("<template><b>☃</b></template>");
+    expect(canceled()).toBe(false);
+  });
+
+  test("limits", async () => {
+    const html = "<div><p>a <b>b</b></p><!-- c --></div>";
+    const doc = await parseStream(Readable.from([html]), {
+      maxBytes: html.length,
+      // html, head, body, div, p, a, b, b, comment
+      maxNodes: 9,
+      // html, body, div, p, b, b
+      maxDepth: 6,
+    });
+    expect(doc.body.innerHTML).toBe(html);
+
+    await expect(
+      parseStream(Readable.from([html]), { maxBytes: html.length - 1 })
+    ).rejects.toThrow(new StreamLimitError("bytes", html.length - 1));
+    await expect(
+      parseStream(Readable.from([html]), { maxNodes: 8 })
+    ).rejects.toThrow(new StreamLimitError("nodes", 8));
+    await expect(
+      parseStream(Readable.from([html]), { maxDepth: 5 })
+    ).rejects.toThrow(new StreamLimitError("depth", 5));
+  });
+
+  test("limit errors", async () => {
+    const err = await parseStream(Readable.from(["<p>abc</p>"]), {
+      maxBytes: 3,
+    }).catch((err: unknown) => err);
+    expect(err).toBeInstanceOf(StreamLimitError);
+    expect(err).toBeInstanceOf(RangeError);
+    const { name, limit, maximum, message } = err as StreamLimitError;
+    expect({ name, limit, maximum, message }).toEqual({
+      name: "StreamLimitError",
+      limit: "bytes",
+      maximum: 3,
+      message: "the stream exceeded the maximum bytes of 3",
+    });
+  });
+
+  test("aborting", async () => {
+    // node streams are destroyed
+    const node = Readable.from(["<p>a</p>", "<p>b</p>", "<p>c</p>"]);
+    await expect(parseStream(node, { maxBytes: 10 })).rejects.toThrow(
+      StreamLimitError
+    );
+    expect(node.destroyed).toBe(true);
+
+    // web streams are canceled, even when the tree exceeds a limit
+    const { stream, canceled } = webStream(Array(5).fill("<div>"));
+    await expect(parseStream(stream, { maxDepth: 4 })).rejects.toThrow(
+      StreamLimitError
+    );
+    expect(canceled()).toBe(true);
+    expect(stream.locked).toBe(false);
+  });
+
+  test("nested templates", async () => {
+    const html = "<template><template><p>a</p></template></template>";
+    // html, head, template, template, p, a
+    await expect(
+      parseStream(Readable.from([html]), { maxDepth: 6 })
+    ).resolves.toBeTruthy();
+    await expect(
+      parseStream(Readable.from([html]), { maxDepth: 5 })
+    ).rejects.toThrow(new StreamLimitError("depth", 5));
+  });
+
+  test("moved nodes", async () => {
+    // NOTE improperly nested formatting elements are moved into new elements
+    const html = "<b><p>a</b>b</p>";
+    const doc = await parseStream(Readable.from([html]), { maxNodes: 8 });
+    expect(doc.body.innerHTML).toBe("<b></b><p><b>a</b>b</p>");
+    await expect(
+      parseStream(Readable.from([html]), { maxNodes: 7 })
+    ).rejects.toThrow(StreamLimitError);
+
+    // text in tables is moved before them
+    const table = "<table>a<tr><td>b</td></tr></table>";
+    const fostered = await parseStream(Readable.from([table]), {
+      maxNodes: 9,
+    });
+    expect(fostered.body.innerHTML).toBe(
+      "a<table><tbody><tr><td>b</td></tr></tbody></table>"
+    );
+    await expect(
+      parseStream(Readable.from([table]), { maxNodes: 8 })
+    ).rejects.toThrow(StreamLimitError);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * parse documents from streams
+ *
+ * This is a separate entry point, `read-tree/stream`, since it only works in
+ * node.
+ *
+ * @example
+ * ```ts
+ * import { parseStream } from "read-tree/stream";
+ * const res = await fetch(url);
+ * const doc = await parseStream(res.body, { url, maxBytes: 2 ** 24 });
+ * ```
+ *
+ * @packageDocumentation
+ */
+import { Readable } from "node:stream";
+import { parseFragment, TreeAdapter } from "parse5";
+import { ParserStream } from "parse5-parser-stream";
+import {
+  ChildNode,
+  createTreeAdapter,
+  Document,
+  DocumentFragment,
+  Node,
+  NodeType,
+  ParentNode,
+  Template,
+  TreeAdapterOptions,
+  TreeAdapterTypes,
+} from ".";
+
+/** a limit of {@link ParseStreamOptions} */
+export type StreamLimit = "bytes" | "nodes" | "depth";
+
+/** the error when parsing a stream exceeds one of its limits */
+export class StreamLimitError extends RangeError {
+  readonly name = "StreamLimitError";
+
+  constructor(
+    /** the limit that was exceeded */
+    readonly limit: StreamLimit,
+    /** the value of the limit */
+    readonly maximum: number
+  ) {
+    super(`the stream exceeded the maximum ${limit} of ${maximum}`);
+  }
+}
+
+/** options for {@link parseStream} */
+export interface ParseStreamOptions extends TreeAdapterOptions {
+  /**
+   * the maximum number of bytes read from the stream
+   *
+   * @defaultValue Infinity
+   */
+  maxBytes?: number;
+
+  /**
+   * the maximum number of nodes in the document, including text and comments
+   *
+   * @defaultValue Infinity
+   */
+  maxNodes?: number;
+
+  /**
+   * the maximum depth of nodes, where children of the document have depth one
+   *
+   * The content of templates continues from the depth of their template.
+   *
+   * @defaultValue Infinity
+   */
+  maxDepth?: number;
+}
+
+/** a chunk of a stream, which is decoded as utf-8 if it isn't a string */
+type Chunk = string | Uint8Array;
+
+/** the chunks of a node or web stream, canceling it if iteration stops */
+async function* chunksOf(
+  stream: Readable | ReadableStream<Chunk>
+): AsyncGenerator<Chunk> {
+  if (stream instanceof Readable) {
+    // NOTE node streams are destroyed when iteration stops early
+    for await (const chunk of stream) {
+      yield chunk as Chunk;
+    }
+    return;
+  }
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    // NOTE this does nothing if the stream is done
+    await reader.cancel();
+    reader.releaseLock();
+  }
+}
+
+/** a tree adapter that throws when the document exceeds the limits */
+function limitAdapter(
+  adapter: TreeAdapter<TreeAdapterTypes>,
+  maxNodes: number,
+  maxDepth: number
+): TreeAdapter<TreeAdapterTypes> {
+  const counted = new WeakSet<Node>();
+  let nodes = 0;
+  const templates = new WeakMap<DocumentFragment, Template>();
+
+  /** the depth of node, but at most the maximum */
+  function depthOf(node: Node): number {
+    let depth = 0;
+    let pointer: Node | null | undefined = node;
+    while (
+      pointer &&
+      pointer.nodeType !== NodeType.Document &&
+      depth < maxDepth
+    ) {
+      if (pointer.nodeType === NodeType.DocumentFragment) {
+        pointer = templates.get(pointer);
+      } else {
+        depth++;
+        pointer = pointer.parentNode;
+      }
+    }
+    return depth;
+  }
+
+  /** check the limits before child is inserted into parent */
+  function inserting(parent: ParentNode, child: ChildNode): void {
+    // NOTE nodes can be moved while parsing, but only count once
+    if (!counted.has(child)) {
+      counted.add(child);
+      if (++nodes > maxNodes) {
+        throw new StreamLimitError("nodes", maxNodes);
+      }
+    }
+    // NOTE finding the depth walks the ancestors, so skip it without a limit
+    if (maxDepth < Infinity && depthOf(parent) >= maxDepth) {
+      throw new StreamLimitError("depth", maxDepth);
+    }
+  }
+
+  return {
+    ...adapter,
+
+    appendChild(parentNode: ParentNode, newNode: ChildNode): void {
+      inserting(parentNode, newNode);
+      adapter.appendChild(parentNode, newNode);
+    },
+
+    insertBefore(
+      parentNode: ParentNode,
+      newNode: ChildNode,
+      referenceNode: ChildNode
+    ): void {
+      inserting(parentNode, newNode);
+      adapter.insertBefore(parentNode, newNode, referenceNode);
+    },
+
+    setTemplateContent(
+      templateElement: Template,
+      contentElement: DocumentFragment
+    ): void {
+      templates.set(contentElement, templateElement);
+      adapter.setTemplateContent(templateElement, contentElement);
+    },
+  };
+}
+
+/**
+ * parse a document from a node or web stream
+ *
+ * Chunks that aren't strings are decoded as utf-8. The document is built as
+ * the chunks arrive, so the html never needs to be held in memory at once.
+ * Unless another is passed, elements parse `innerHTML` with parse5.
+ *
+ * @throws StreamLimitError if the stream exceeds one of the limits, after
+ *   which the stream is canceled
+ * @throws TypeError if `url` isn't a valid absolute url
+ */
+export async function parseStream(
+  stream: Readable | ReadableStream<Chunk>,
+  {
+    maxBytes = Infinity,
+    maxNodes = Infinity,
+    maxDepth = Infinity,
+    ...options
+  }: ParseStreamOptions = {}
+): Promise<Document> {
+  const treeAdapter = limitAdapter(
+    createTreeAdapter({ parseFragment, ...options }),
+    maxNodes,
+    maxDepth
+  );
+  const parser = new ParserStream<TreeAdapterTypes>({ treeAdapter });
+  const decoder = new TextDecoder();
+  let bytes = 0;
+  try {
+    for await (const chunk of chunksOf(stream)) {
+      bytes +=
+        typeof chunk === "string" ? Buffer.byteLength(chunk) : chunk.byteLength;
+      if (bytes > maxBytes) {
+        throw new StreamLimitError("bytes", maxBytes);
+      }
+      // NOTE without script listeners, writing parses synchronously
+      parser.write(
+        typeof chunk === "string"
+          ? chunk
+          : decoder.decode(chunk, { stream: true })
+      );
+    }
+    await new Promise((resolve) => {
+      parser.end(decoder.decode(), resolve);
+    });
+  } catch (err) {
+    parser.destroy();
+    throw err;
+  }
+  return parser.document;
+}
@@ -0,0 +1,119 @@
+import { element } from "./testing";
+
+describe("style", () => {
+  test("#getPropertyValue()", () => {
+    const div = element("<div></div>");
+    div.setAttribute(
+      "style",
+      "display: none; Background-Color:RED ;--Custom: a;content: 'a;b'; background-image: url(a;b.png)"
+    );
+    const { style } = div;
+    expect(div.style).toBe(style);
+    expect(style.getPropertyValue("display")).toBe("none");
+    expect(style.getPropertyValue("background-color")).toBe("RED");
+    expect(style.getPropertyValue("BACKGROUND-COLOR")).toBe("RED");
+    expect(style.getPropertyValue("--Custom")).toBe("a");
+    expect(style.getPropertyValue("--custom")).toBe("");
+    expect(style.getPropertyValue("content")).toBe("'a;b'");
+    expect(style.getPropertyValue("background-image")).toBe("url(a;b.png)");
+    expect(style.getPropertyValue("color")).toBe("");
+    expect(style).toHaveLength(5);
+    expect(style.item(1)).toBe("background-color");
+    expect(style.item(5)).toBe("");
+  });
+
+  test("camel case properties", () => {
+    const div = element("<div></div>");
+    div.setAttribute(
+      "style",
+      "visibility: hidden; background-color: red; float: left; -webkit-transform: none; -moz-appearance: none"
+    );
+    const { style } = div;
+    expect(style.visibility).toBe("hidden");
+    expect(style.backgroundColor).toBe("red");
+    expect(style.cssFloat).toBe("left");
+    expect(style.webkitTransform).toBe("none");
+    expect(style.WebkitTransform).toBe("none");
+    expect(style.MozAppearance).toBe("none");
+    expect(style.color).toBe("");
+    expect(style[0]).toBe("visibility");
+
+    style.backgroundColor = "blue";
+    style.fontSize = "12px";
+    style.visibility = "";
+    style.cssFloat = null;
+    expect(div.getAttribute("style")).toBe(
+      "background-color: blue; -webkit-transform: none; -moz-appearance: none; font-size: 12px;"
+    );
+  });
+
+  test("#cssText", () => {
+    const div = element("<div></div>");
+    div.setAttribute("style", "color:red;;  margin : 0 auto !IMPORTANT; ");
+    const { style } = div;
+    expect(style.cssText).toBe("color: red; margin: 0 auto !important;");
+    style.cssText = "display:none";
+    expect(div.getAttribute("style")).toBe("display: none;");
+    style.cssText = "";
+    expect(div.getAttribute("style")).toBe("");
+  });
+
+  test("#setProperty() & #removeProperty()", () => {
+    const div = element("<div></div>");
+    div.setAttribute("style", "color: red; display: block");
+    const { style } = div;
+    style.setProperty("color", "blue", "important");
+    expect(style.getPropertyPriority("color")).toBe("important");
+    expect(style.getPropertyPriority("display")).toBe("");
+    style.setProperty("Margin", "0");
+    expect(style.cssText).toBe(
+      "color: blue !important; display: block; margin: 0;"
+    );
+
+    // invalid values and priorities are ignored
+    style.setProperty("display", "none; color: green");
+    style.setProperty("display", "none !important");
+    style.setProperty("display", "none", "high");
+    style.setProperty("display", "/* none */");
+    expect(style.display).toBe("block");
+
+    expect(style.removeProperty("color")).toBe("blue");
+    expect(style.removeProperty("color")).toBe("");
+    style.setProperty("margin", null);
+    style.setProperty("display", "");
+    expect(div.getAttribute("style")).toBe("");
+
+    // a missing attribute isn't added unless something is declared
+    const plain = element("<div></div>");
+    plain.style.removeProperty("color");
+    expect(plain.hasAttribute("style")).toBe(false);
+    plain.style.color = "red";
+    expect(plain.outerHTML).toBe(`<div style="color: red;"></div>`);
+  });
+
+  test("malformed declarations", () => {
+    const div = element("<div></div>");
+    const { style } = div;
+    div.setAttribute(
+      "style",
+      `color; : red; 1px: 2px; display: none /* hide */; /* unterminated ;color: red`
+    );
+    expect(style.cssText).toBe("display: none;");
+    div.setAttribute("style", `content: "a\\";b"; color: red`);
+    expect(style.color).toBe("red");
+    div.setAttribute("style", `content: "a;b; color: red`);
+    expect(style.color).toBe("");
+    div.setAttribute("style", `a: (b; c: [d)]; color: red`);
+    expect(style.cssText).toBe("a: (b; c: [d)]; color: red;");
+  });
+
+  test("precedence", () => {
+    const div = element("<div></div>");
+    div.setAttribute(
+      "style",
+      "color: red !important; display: none; color: blue; display: block"
+    );
+    const { style } = div;
+    expect(style.cssText).toBe("color: red !important; display: block;");
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * inline style declarations
+ *
+ * Declarations are parsed leniently like the browser, skipping anything that
+ * isn't a `name: value` pair, but values aren't validated against their
+ * properties and shorthands aren't expanded.
+ *
+ * @see {@link https://drafts.csswg.org/cssom/#the-cssstyledeclaration-interface}
+ */
+import { CSSStyleDeclaration, Element } from ".";
+
+/** a single parsed declaration */
+interface Declaration {
+  name: string;
+  value: string;
+  important: boolean;
+}
+
+const closing: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+
+/** split css on top level semicolons, dropping comments */
+function splitDeclarations(css: string): string[] {
+  const parts = [];
+  const stack = [];
+  let quote = "";
+  let current = "";
+  for (let i = 0; i < css.length; i++) {
+    const char = css[i];
+    if (char === "\\") {
+      current += css.slice(i, i + 2);
+      i++;
+    } else if (quote) {
+      current += char;
+      if (char === quote) {
+        quote = "";
+      }
+    } else if (char === "/" && css[i + 1] === "*") {
+      const end = css.indexOf("*/", i + 2);
+      i = end === -1 ? css.length : end + 1;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char in closing) {
+      stack.push(closing[char]);
+      current += char;
+    } else if (char === stack[stack.length - 1]) {
+      stack.pop();
+      current += char;
+    } else if (char === ";" && !stack.length) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/** the canonical name of a property, custom properties are case sensitive */
+function propertyName(name: string): string {
+  const trimmed = name.trim();
+  return trimmed.startsWith("--") ? trimmed : trimmed.toLowerCase();
+}
+
+/** parse the declarations of css, later declarations taking precedence */
+function parseDeclarations(css: string): Map<string, Declaration> {
+  const declarations = new Map<string, Declaration>();
+  for (const part of splitDeclarations(css)) {
+    const colon = part.indexOf(":");
+    const name = propertyName(part.slice(0, colon));
+    if (colon === -1 || !/^(--|-?[a-z_])[\w-]*$/i.test(name)) {
+      continue;
+    }
+    let value = part.slice(colon + 1).trim();
+    const important = /!\s*important$/i.test(value);
+    if (important) {
+      value = value.slice(0, value.lastIndexOf("!")).trim();
+    }
+    const existing = declarations.get(name);
+    if (value && (important || !existing?.important)) {
+      // NOTE like the browser, the latest declaration moves to the end
+      declarations.delete(name);
+      declarations.set(name, { name, value, important });
+    }
+  }
+  return declarations;
+}
+
+/** serialize declarations into css text */
+function serializeDeclarations(declarations: Map<string, Declaration>): string {
+  return [...declarations.values()]
+    .map(
+      ({ name, value, important }) =>
+        `${name}: ${value}${important ? " !important" : ""};`
+    )
+    .join(" ");
+}
+
+/** the css property name of a camel case attribute, e.g. `backgroundColor` */
+function cssName(attribute: string): string {
+  if (attribute === "cssFloat") {
+    return "float";
+  }
+  const name = attribute.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+  return name.startsWith("webkit-") ? `-${name}` : name;
+}
+
+/** style declarations backed by the style attribute of an element */
+class StyleDeclaration {
+  constructor(private readonly element: Element) {}
+
+  /** the current declarations of the attribute */
+  private declarations(): Map<string, Declaration> {
+    return parseDeclarations(this.element.getAttribute("style") ?? "");
+  }
+
+  /** write declarations back to the attribute */
+  private update(declarations: Map<string, Declaration>): void {
+    this.element.setAttribute("style", serializeDeclarations(declarations));
+  }
+
+  get cssText(): string {
+    return serializeDeclarations(this.declarations());
+  }
+
+  set cssText(val: string) {
+    this.element.setAttribute(
+      "style",
+      serializeDeclarations(parseDeclarations(val))
+    );
+  }
+
+  get length(): number {
+    return this.declarations().size;
+  }
+
+  item(index: number): string {
+    return [...this.declarations().keys()][index] ?? "";
+  }
+
+  getPropertyValue(property: string): string {
+    return this.declarations().get(propertyName(property))?.value ?? "";
+  }
+
+  getPropertyPriority(property: string): string {
+    return this.declarations().get(propertyName(property))?.important
+      ? "important"
+      : "";
+  }
+
+  setProperty(property: string, value: string | null, priority = ""): void {
+    const name = propertyName(property);
+    if (!value) {
+      this.removeProperty(name);
+      return;
+    } else if (priority && priority.toLowerCase() !== "important") {
+      return;
+    }
+    // NOTE values that don't parse as a single declaration are ignored
+    const [parsed, ...rest] = parseDeclarations(`--value: ${value}`).values();
+    if (!parsed || parsed.important || rest.length) {
+      return;
+    }
+    const declarations = this.declarations();
+    const existing = declarations.get(name);
+    const declaration = { name, value: parsed.value, important: !!priority };
+    if (existing) {
+      // NOTE setting a property keeps its position
+      Object.assign(existing, declaration);
+    } else {
+      declarations.set(name, declaration);
+    }
+    this.update(declarations);
+  }
+
+  removeProperty(property: string): string {
+    const name = propertyName(property);
+    const declarations = this.declarations();
+    const existing = declarations.get(name);
+    if (existing) {
+      declarations.delete(name);
+      this.update(declarations);
+    }
+    return existing?.value ?? "";
+  }
+}
+
+/** a style declaration for element with camel case property accessors */
+export function createStyle(element: Element): CSSStyleDeclaration {
+  return new Proxy(new StyleDeclaration(element), {
+    get(target, key, receiver) {
+      if (typeof key !== "string" || key in target) {
+        return Reflect.get(target, key, receiver) as unknown;
+      } else if (/^\d+$/.test(key)) {
+        return target.item(Number(key));
+      } else {
+        return target.getPropertyValue(cssName(key));
+      }
+    },
+
+    set(target, key, value, receiver) {
+      if (typeof key !== "string" || key in target) {
+        return Reflect.set(target, key, value, receiver);
+      } else {
+        target.setProperty(cssName(key), value === null ? null : String(value));
+        return true;
+      }
+    },
+  }) as unknown as CSSStyleDeclaration;
+}
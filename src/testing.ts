@@ -0,0 +1,17 @@
+/** helpers shared by the tests */
+import { parseFragment } from "parse5";
+import { DocumentFragment, Element, treeAdapter } from ".";
+
+/** a fragment parsed from html */
+export function fragment(
+  html: string,
+  adapter = treeAdapter
+): DocumentFragment {
+  return parseFragment(html, { treeAdapter: adapter });
+}
+
+/** the first element parsed from html */
+export function element(html: string, adapter = treeAdapter): Element {
+  const [elem] = fragment(html, adapter).children;
+  return elem;
+}
@@ -0,0 +1,110 @@
+import { parse } from "parse5";
+import { treeAdapter } from ".";
+import { element } from "./testing";
+
+describe("text", () => {
+  test("blocks", () => {
+    const div = element(`<div><p>a</p><p>b</p><h1>c</h1><div>d</div>e</div>`);
+    expect(div.textContent).toBe("abcde");
+    expect(div.innerText).toBe("a\n\nb\n\nc\nd\ne");
+    expect(
+      element(`<div><div><p>a</p></div><div>b</div></div>`).innerText
+    ).toBe("a\n\nb");
+    expect(element(`<p>a<br>b<br><br>c<br></p>`).innerText).toBe("a\nb\n\nc\n");
+    expect(element(`<ul><li>one</li><li>two</li></ul>`).innerText).toBe(
+      "one\ntwo"
+    );
+  });
+
+  test("whitespace", () => {
+    const div = element(`<div>
+      a  <b> b </b> c
+      <span> </span>
+      d <br> e
+      <div> f </div>
+    </div>`);
+    expect(div.innerText).toBe("a b c d\ne\nf");
+    expect(element(`<span> a  </span>`).innerText).toBe("a");
+    expect(element(`<span>&nbsp;a&nbsp; </span>`).innerText).toBe(
+      "\u00a0a\u00a0"
+    );
+    expect(element(`<div> </div>`).innerText).toBe("");
+  });
+
+  test("preformatted", () => {
+    const div = element(
+      `<div><p>a  b</p><pre>  c\n   <b>d  e</b>\n</pre>f  g</div>`
+    );
+    expect(div.innerText).toBe("a b\n\n  c\n   d  e\n\nf g");
+    expect(element(`<textarea> a  b </textarea>`).innerText).toBe(" a  b ");
+
+    // empty text doesn't add the line breaks before it
+    const pre = element(`<div><p>a</p><pre></pre></div>`);
+    pre.lastElementChild?.append(pre.ownerDocument.createTextNode(""));
+    expect(pre.innerText).toBe("a");
+  });
+
+  test("tables", () => {
+    const table = element(`<table>
+      <caption>caption</caption>
+      <thead><tr><th>a</th><th>b</th></tr></thead>
+      <tbody>
+        <tr><td> 1 </td> <td>2</td></tr>
+        <tr><td>3</td><td>4</td></tr>
+      </tbody>
+      <tbody></tbody>
+      <tfoot><tr><td>5</td><td>6</td></tr></tfoot>
+    </table>`);
+    expect(table.innerText).toBe("caption\na\tb\n1\t2\n3\t4\n5\t6");
+    const cells = element(`<table><tr><td>a</td><td>b</td></tr></table>`);
+    expect(cells.innerText).toBe("a\tb");
+    const [row] = cells.querySelectorAll("tr");
+    expect(row.innerText).toBe("a\tb");
+    const empty = element(`<table><tbody><tr><td>a</td></tr></tbody></table>`);
+    expect(empty.innerText).toBe("a");
+    const scripted = element(
+      `<table><tr><td>a</td><script></script><td>b</td></tr></table>`
+    );
+    expect(scripted.innerText).toBe("a\tb");
+
+    // rows created outside of a table
+    const { ownerDocument } = cells;
+    const div = ownerDocument.createElement("div");
+    for (const text of ["a", "b"]) {
+      const tr = ownerDocument.createElement("tr");
+      tr.textContent = text;
+      div.append(tr);
+    }
+    expect(div.innerText).toBe("a\nb");
+  });
+
+  test("hidden", () => {
+    const doc = parse(
+      `<title>title</title><style>p {}</style><div>a<script>b</script><span hidden>c</span><input type="HIDDEN"><template>d</template><noscript>e</noscript><dialog>f</dialog><dialog open>g</dialog><span style="display: none">h</span><span style="color: red">i</span></div>`,
+      { treeAdapter }
+    );
+    expect(doc.documentElement.innerText).toBe("a\ng\ni");
+    const [script] = doc.getElementsByTagName("script");
+    expect(script.innerText).toBe("b");
+    const [title] = doc.getElementsByTagName("title");
+    expect(title.innerText).toBe("title");
+  });
+
+  test("foreign elements", () => {
+    const div = element(
+      `<div><svg><text>a</text><style>b</style></svg><math><mi>x</mi></math></div>`
+    );
+    expect(div.innerText).toBe("abx");
+  });
+
+  test("#innerText=", () => {
+    const div = element(`<div><p>old</p></div>`);
+    div.innerText = "a\nb\r\n\rc";
+    expect(div.innerHTML).toBe("a<br>b<br><br>c");
+    expect(div.innerText).toBe("a\nb\n\nc");
+    div.innerText = "<b>&</b>";
+    expect(div.innerHTML).toBe("&lt;b&gt;&amp;&lt;/b&gt;");
+    div.innerText = "";
+    expect(div.childNodes).toHaveLength(0);
+  });
+});
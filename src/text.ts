@@ -0,0 +1,261 @@
+/**
+ * rendered text without layout
+ *
+ * This approximates the rendering of the default style sheet: elements that
+ * aren't rendered are skipped, blocks are separated by line breaks and
+ * whitespace collapses everywhere except preformatted elements. Styles beyond
+ * an inline `display: none` are ignored.
+ *
+ * @see {@link https://html.spec.whatwg.org/multipage/dom.html#the-innertext-idl-attribute}
+ */
+import { Element, NodeType } from ".";
+import { htmlNamespace, isHtml } from "./html";
+
+/** elements that are never rendered */
+const hiddenElements = new Set([
+  "area",
+  "base",
+  "basefont",
+  "datalist",
+  "head",
+  "link",
+  "meta",
+  "noembed",
+  "noframes",
+  "noscript",
+  "param",
+  "rp",
+  "script",
+  "style",
+  "template",
+  "title",
+]);
+
+/** elements that are displayed as blocks */
+const blockElements = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "body",
+  "caption",
+  "center",
+  "dd",
+  "details",
+  "dialog",
+  "dir",
+  "div",
+  "dl",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hgroup",
+  "hr",
+  "html",
+  "legend",
+  "li",
+  "listing",
+  "main",
+  "menu",
+  "nav",
+  "ol",
+  "plaintext",
+  "pre",
+  "search",
+  "section",
+  "summary",
+  "table",
+  "ul",
+  "xmp",
+]);
+
+/** elements whose whitespace is preserved */
+const preformattedElements = new Set([
+  "listing",
+  "plaintext",
+  "pre",
+  "textarea",
+  "xmp",
+]);
+
+/** if elem and everything in it isn't rendered */
+export function isHidden(elem: Element): boolean {
+  return (
+    (elem.namespaceURI === htmlNamespace &&
+      hiddenElements.has(elem.localName)) ||
+    elem.hasAttribute("hidden") ||
+    (isHtml(elem, "dialog") && !elem.hasAttribute("open")) ||
+    (isHtml(elem, "input") &&
+      elem.getAttribute("type")?.toLowerCase() === "hidden") ||
+    // NOTE only check the style when there is one, since parsing it is slow
+    (elem.hasAttribute("style") && elem.style.display === "none")
+  );
+}
+
+/** if elem is an html element that's displayed as a block */
+export function isBlock(elem: Element): boolean {
+  return (
+    elem.namespaceURI === htmlNamespace &&
+    (elem.localName === "p" || blockElements.has(elem.localName))
+  );
+}
+
+/** the next sibling of elem that's an html element with one of the names */
+function nextSibling(elem: Element, ...names: string[]): Element | null {
+  let next = elem.nextElementSibling;
+  while (next && !isHtml(next, ...names)) {
+    next = next.nextElementSibling;
+  }
+  return next;
+}
+
+/** if row isn't the last row of its table */
+function hasNextRow(row: Element): boolean {
+  if (nextSibling(row, "tr")) {
+    return true;
+  }
+  // NOTE rows are usually in sections, so check the sections after this one
+  const section = row.parentElement;
+  if (!section || !isHtml(section, "thead", "tbody", "tfoot")) {
+    return false;
+  }
+  for (
+    let next = nextSibling(section, "thead", "tbody", "tfoot");
+    next;
+    next = nextSibling(next, "thead", "tbody", "tfoot")
+  ) {
+    if (next.children.some((child) => isHtml(child, "tr"))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** accumulates rendered text while collapsing whitespace and line breaks */
+class TextBuilder {
+  private readonly parts: string[] = [];
+  /** the line breaks required before the next text */
+  private breaks = 0;
+  /** if collapsed whitespace precedes the next text */
+  private space = false;
+  /** if nothing has been written since the last line break */
+  private lineStart = true;
+
+  /** write text that's already been collapsed */
+  private write(text: string): void {
+    if (this.parts.length && this.breaks) {
+      this.parts.push("\n".repeat(this.breaks));
+    } else if (this.space && !this.lineStart) {
+      this.parts.push(" ");
+    }
+    this.parts.push(text);
+    this.breaks = 0;
+    this.space = false;
+    this.lineStart = text.endsWith("\n");
+  }
+
+  /** add text whose whitespace collapses */
+  collapsed(text: string): void {
+    for (const [i, word] of text.split(/[ \t\n\r\f]+/).entries()) {
+      if (i) {
+        this.space = true;
+      }
+      if (word) {
+        this.write(word);
+      }
+    }
+  }
+
+  /** add text whose whitespace is preserved */
+  preserved(text: string): void {
+    if (text) {
+      this.write(text);
+    }
+  }
+
+  /** require at least count line breaks, which also drops any whitespace */
+  boundary(count = 0): void {
+    this.breaks = Math.max(this.breaks, count);
+    this.space = false;
+  }
+
+  /** the text, where line breaks at the start and end are dropped */
+  toString(): string {
+    return this.parts.join("");
+  }
+}
+
+/** add the rendered text of the children of elem */
+function collect(elem: Element, builder: TextBuilder, preserve: boolean): void {
+  for (let child = elem.firstChild; child; child = child.nextSibling) {
+    if (child.nodeType === NodeType.Text) {
+      if (preserve) {
+        builder.preserved(child.value);
+      } else {
+        builder.collapsed(child.value);
+      }
+    } else if (child.nodeType === NodeType.Element && !isHidden(child)) {
+      collectElement(child, builder, preserve);
+    }
+  }
+}
+
+/** add the rendered text of a rendered element */
+function collectElement(
+  elem: Element,
+  builder: TextBuilder,
+  preserve: boolean
+): void {
+  if (elem.namespaceURI !== htmlNamespace) {
+    collect(elem, builder, preserve);
+    return;
+  }
+  const { localName } = elem;
+  if (localName === "br") {
+    builder.boundary();
+    builder.preserved("\n");
+    return;
+  }
+  const breaks =
+    localName === "p" ? 2 : blockElements.has(localName) ? 1 : null;
+  if (breaks !== null) {
+    builder.boundary(breaks);
+  } else if (localName === "td" || localName === "th") {
+    builder.boundary();
+  }
+  collect(elem, builder, preserve || preformattedElements.has(localName));
+  if (breaks !== null) {
+    builder.boundary(breaks);
+  } else if (localName === "td" || localName === "th") {
+    builder.boundary();
+    if (nextSibling(elem, "td", "th")) {
+      builder.preserved("\t");
+    }
+  } else if (localName === "tr") {
+    builder.boundary();
+    if (hasNextRow(elem)) {
+      builder.preserved("\n");
+    }
+  }
+}
+
+/** the rendered text of elem */
+export function innerText(elem: Element): string {
+  // NOTE like the browser, elements that aren't rendered use their content
+  if (isHidden(elem)) {
+    return elem.textContent;
+  }
+  const builder = new TextBuilder();
+  collectElement(elem, builder, false);
+  return builder.toString();
+}
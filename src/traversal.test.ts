@@ -0,0 +1,459 @@
+import { parse, parseFragment } from "parse5";
+import { Node, NodeFilter, NodeType, TextNode, treeAdapter } from ".";
+
+const content = `<div id="root"><p id="a">one<b id="b">two</b></p><!--note--><p id="c">three</p><ul id="d"><li id="e">four</li><li id="f"></li></ul></div>`;
+
+function setup() {
+  const doc = parse(content, { treeAdapter });
+  const root = doc.getElementById("root")!;
+  return { doc, root };
+}
+
+/** the ids of elements and the data of other nodes */
+function names(nodes: (Node | null)[]): (string | null)[] {
+  return nodes.map((node) =>
+    node === null
+      ? null
+      : node.nodeType === NodeType.Element
+      ? node.id || node.tagName
+      : node.nodeType === NodeType.Text
+      ? node.value
+      : node.nodeType === NodeType.Comment
+      ? `<!--${node.data}-->`
+      : node.nodeName
+  );
+}
+
+describe("traversal", () => {
+  test("NodeFilter", () => {
+    for (const [name, type] of Object.entries(NodeType)) {
+      const mask = name
+        .replace(/([a-z])([A-Z])/g, "$1_$2")
+        .replace("Cdata", "Cdata_Section")
+        .toUpperCase();
+      expect(NodeFilter[`SHOW_${mask}` as keyof typeof NodeFilter]).toBe(
+        1 << (type - 1)
+      );
+    }
+  });
+
+  test("#createTreeWalker() #nextNode() & #previousNode()", () => {
+    const { doc, root } = setup();
+    const walker = doc.createTreeWalker(root);
+    expect(walker.root).toBe(root);
+    expect(walker.whatToShow).toBe(NodeFilter.SHOW_ALL);
+    expect(walker.filter).toBeNull();
+    expect(walker.currentNode).toBe(root);
+    const forward = [];
+    let node;
+    while ((node = walker.nextNode())) {
+      forward.push(node);
+    }
+    expect(names(forward)).toEqual([
+      "a",
+      "one",
+      "b",
+      "two",
+      "<!--note-->",
+      "c",
+      "three",
+      "d",
+      "e",
+      "four",
+      "f",
+    ]);
+    expect(walker.currentNode).toBe(forward[forward.length - 1]);
+    const backward = [];
+    while ((node = walker.previousNode())) {
+      backward.push(node);
+    }
+    expect(backward).toEqual([...forward.reverse().slice(1), root]);
+    expect(walker.previousNode()).toBeNull();
+  });
+
+  test("whatToShow", () => {
+    const { doc, root } = setup();
+    const texts = doc.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    const values = [];
+    while (texts.nextNode()) {
+      values.push(texts.currentNode);
+    }
+    expect(names(values)).toEqual(["one", "two", "three", "four"]);
+
+    const mask = NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_COMMENT;
+    const walker = doc.createTreeWalker(doc, mask);
+    expect(walker.whatToShow).toBe(mask);
+    expect(names([walker.nextNode(), walker.firstChild()])).toEqual([
+      "HTML",
+      "HEAD",
+    ]);
+    expect(doc.createTreeWalker(doc, -1).whatToShow).toBe(NodeFilter.SHOW_ALL);
+    expect(doc.createTreeWalker(doc, 0).nextNode()).toBeNull();
+  });
+
+  test("filters", () => {
+    const { doc, root } = setup();
+    // NOTE rejecting skips the children, while skipping doesn't
+    const filter = (node: Node) =>
+      node.nodeType !== NodeType.Element
+        ? NodeFilter.FILTER_SKIP
+        : node.id === "a"
+        ? NodeFilter.FILTER_SKIP
+        : node.id === "d"
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT;
+    const walker = doc.createTreeWalker(root, NodeFilter.SHOW_ALL, filter);
+    expect(walker.filter).toBe(filter);
+    const accepted = [];
+    while (walker.nextNode()) {
+      accepted.push(walker.currentNode);
+    }
+    expect(names(accepted)).toEqual(["b", "c"]);
+    expect(names([walker.previousNode(), walker.previousNode()])).toEqual([
+      "b",
+      "root",
+    ]);
+
+    const iterator = doc.createNodeIterator(root, NodeFilter.SHOW_ELEMENT, {
+      acceptNode: filter,
+    });
+    const iterated = [];
+    let node;
+    while ((node = iterator.nextNode())) {
+      iterated.push(node);
+    }
+    expect(names(iterated)).toEqual(["root", "b", "c", "e", "f"]);
+  });
+
+  test("filters that use their traversal", () => {
+    const { doc, root } = setup();
+    let reenter = true;
+    const walker = doc.createTreeWalker(root, NodeFilter.SHOW_ALL, () => {
+      if (reenter) {
+        reenter = false;
+        walker.nextNode();
+      }
+      return NodeFilter.FILTER_ACCEPT;
+    });
+    expect(() => walker.nextNode()).toThrow(
+      "a filter can't use the traversal it filters"
+    );
+    // the filter can be used again afterwards
+    expect(walker.nextNode()).toBe(root.firstChild);
+
+    // even if it only reaches nodes that aren't shown
+    const elements = doc.createTreeWalker(root, NodeFilter.SHOW_ELEMENT, () => {
+      // NOTE the only child of b is text
+      elements.currentNode = doc.getElementById("b")!;
+      elements.firstChild();
+      return NodeFilter.FILTER_ACCEPT;
+    });
+    expect(() => elements.nextNode()).toThrow(
+      "a filter can't use the traversal it filters"
+    );
+  });
+
+  test("#parentNode() & children", () => {
+    const { doc, root } = setup();
+    const walker = doc.createTreeWalker(root, NodeFilter.SHOW_ELEMENT);
+    expect(walker.parentNode()).toBeNull();
+    expect(names([walker.firstChild(), walker.firstChild()])).toEqual([
+      "a",
+      "b",
+    ]);
+    expect(walker.firstChild()).toBeNull();
+    expect(walker.lastChild()).toBeNull();
+    expect(names([walker.parentNode(), walker.parentNode()])).toEqual([
+      "a",
+      "root",
+    ]);
+    expect(walker.parentNode()).toBeNull();
+    expect(walker.currentNode).toBe(root);
+    expect(names([walker.lastChild(), walker.lastChild()])).toEqual(["d", "f"]);
+
+    // skipped children are looked through
+    const skipping = doc.createTreeWalker(root, NodeFilter.SHOW_ALL, (node) =>
+      node.nodeType === NodeType.Element && node.tagName === "P"
+        ? NodeFilter.FILTER_SKIP
+        : NodeFilter.FILTER_ACCEPT
+    );
+    expect(names([skipping.firstChild()])).toEqual(["one"]);
+    skipping.currentNode = root;
+    expect(names([skipping.lastChild()])).toEqual(["d"]);
+    skipping.currentNode = doc.getElementById("c")!;
+    expect(names([skipping.firstChild()])).toEqual(["three"]);
+    const items = doc.createTreeWalker(root, NodeFilter.SHOW_ALL, (node) =>
+      node.nodeType === NodeType.Element && node.tagName === "LI"
+        ? NodeFilter.FILTER_ACCEPT
+        : NodeFilter.FILTER_SKIP
+    );
+    expect(names([items.firstChild()])).toEqual(["e"]);
+    items.currentNode = root;
+    expect(names([items.lastChild()])).toEqual(["f"]);
+
+    // rejected children aren't looked through
+    const rejecting = doc.createTreeWalker(root, NodeFilter.SHOW_ALL, (node) =>
+      node.nodeType === NodeType.Element
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT
+    );
+    expect(names([rejecting.firstChild()])).toEqual(["<!--note-->"]);
+
+    // only the root's descendants are considered
+    const texts = doc.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    texts.currentNode = doc.getElementById("f")!;
+    expect(texts.firstChild()).toBeNull();
+    texts.currentNode = doc.getElementById("d")!;
+    expect(names([texts.firstChild()])).toEqual(["four"]);
+    texts.currentNode = doc.getElementById("c")!;
+    expect(names([texts.lastChild()])).toEqual(["three"]);
+    texts.currentNode = root;
+    expect(names([texts.lastChild()])).toEqual(["four"]);
+    texts.currentNode = doc.getElementById("a")!;
+    expect(names([texts.lastChild()])).toEqual(["two"]);
+    texts.currentNode = doc.body;
+    expect(texts.parentNode()).toBeNull();
+  });
+
+  test("siblings", () => {
+    const { doc, root } = setup();
+    const walker = doc.createTreeWalker(root);
+    expect(walker.nextSibling()).toBeNull();
+    walker.currentNode = doc.getElementById("a")!;
+    expect(
+      names([walker.nextSibling(), walker.nextSibling(), walker.nextSibling()])
+    ).toEqual(["<!--note-->", "c", "d"]);
+    expect(walker.nextSibling()).toBeNull();
+    expect(names([walker.previousSibling()])).toEqual(["c"]);
+
+    // skipped siblings are looked through, and rejected ones aren't
+    const elements = doc.createTreeWalker(root, NodeFilter.SHOW_ELEMENT, (n) =>
+      n.nodeType === NodeType.Element && n.id === "d"
+        ? NodeFilter.FILTER_SKIP
+        : n.nodeType === NodeType.Element && n.id === "a"
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT
+    );
+    elements.currentNode = doc.getElementById("c")!;
+    expect(names([elements.nextSibling(), elements.nextSibling()])).toEqual([
+      "e",
+      "f",
+    ]);
+    expect(elements.nextSibling()).toBeNull();
+    elements.currentNode = doc.getElementById("e")!;
+    expect(names([elements.previousSibling()])).toEqual(["c"]);
+    expect(elements.previousSibling()).toBeNull();
+
+    // a skipped parent with no more siblings continues with its siblings
+    const texts = doc.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    texts.currentNode = doc.getElementById("b")!.firstChild!;
+    expect(names([texts.nextSibling()])).toEqual(["three"]);
+    expect(names([texts.previousSibling()])).toEqual(["two"]);
+
+    // accepted parents stop the search
+    walker.currentNode = doc.getElementById("b")!.firstChild!;
+    expect(walker.nextSibling()).toBeNull();
+    elements.currentNode = doc.body;
+    expect(elements.nextSibling()).toBeNull();
+  });
+
+  test("moved current nodes", () => {
+    const { doc, root } = setup();
+    const walker = doc.createTreeWalker(root);
+    const outside = doc.createElement("div");
+    outside.appendChild(doc.createElement("i"));
+    walker.currentNode = outside.firstChild!;
+    expect(walker.nextNode()).toBeNull();
+    expect(walker.nextSibling()).toBeNull();
+    expect(walker.previousNode()).toBe(outside);
+    expect(walker.previousNode()).toBeNull();
+    expect(walker.nextSibling()).toBeNull();
+    walker.currentNode = doc;
+    expect(walker.nextSibling()).toBeNull();
+    expect(walker.previousSibling()).toBeNull();
+
+    const frag = parseFragment("<i></i><b></b>", { treeAdapter });
+    const fragWalker = doc.createTreeWalker(frag);
+    expect(names([fragWalker.nextNode(), fragWalker.nextNode()])).toEqual([
+      "I",
+      "B",
+    ]);
+  });
+
+  test("#createNodeIterator()", () => {
+    const { doc, root } = setup();
+    const iterator = doc.createNodeIterator(root, NodeFilter.SHOW_ELEMENT);
+    expect(iterator.root).toBe(root);
+    expect(iterator.whatToShow).toBe(NodeFilter.SHOW_ELEMENT);
+    expect(iterator.filter).toBeNull();
+    expect(iterator.referenceNode).toBe(root);
+    expect(iterator.pointerBeforeReferenceNode).toBe(true);
+    expect(iterator.previousNode()).toBeNull();
+    const forward = [];
+    let node;
+    while ((node = iterator.nextNode())) {
+      forward.push(node);
+    }
+    expect(names(forward)).toEqual(["root", "a", "b", "c", "d", "e", "f"]);
+    expect(iterator.pointerBeforeReferenceNode).toBe(false);
+    // the reference node is returned again when changing direction
+    expect(names([iterator.previousNode(), iterator.previousNode()])).toEqual([
+      "f",
+      "e",
+    ]);
+    expect(names([iterator.nextNode()])).toEqual(["e"]);
+    iterator.detach();
+    expect(names([iterator.nextNode()])).toEqual(["f"]);
+
+    const all = doc.createNodeIterator(root);
+    expect(all.whatToShow).toBe(NodeFilter.SHOW_ALL);
+  });
+
+  test("removing while iterating", () => {
+    const { doc, root } = setup();
+    // readability's pattern of removing nodes as they're found
+    const comments = doc.createNodeIterator(doc, NodeFilter.SHOW_COMMENT);
+    let comment;
+    while ((comment = comments.nextNode())) {
+      if (comment.nodeType === NodeType.Comment) {
+        comment.remove();
+      }
+    }
+    expect(root.outerHTML).not.toContain("<!--");
+
+    const iterator = doc.createNodeIterator(root, NodeFilter.SHOW_ELEMENT);
+    const seen = [];
+    let node;
+    while ((node = iterator.nextNode())) {
+      seen.push(node);
+      if (node.nodeType === NodeType.Element && node.tagName === "P") {
+        node.remove();
+      }
+    }
+    expect(names(seen)).toEqual(["root", "a", "c", "d", "e", "f"]);
+    expect(root.outerHTML).toBe(
+      `<div id="root"><ul id="d"><li id="e">four</li><li id="f"></li></ul></div>`
+    );
+  });
+
+  test("removing the reference node", () => {
+    const { doc, root } = setup();
+    const iterator = doc.createNodeIterator(root, NodeFilter.SHOW_ELEMENT);
+    const [a, c, d] = root.children;
+    const [e, f] = d.children;
+
+    // before the reference, it moves to the next node
+    while (iterator.nextNode() !== c);
+    iterator.previousNode();
+    expect(iterator.pointerBeforeReferenceNode).toBe(true);
+    c.remove();
+    expect(iterator.referenceNode).toBe(d);
+    expect(iterator.nextNode()).toBe(d);
+
+    // or the previous if there isn't one
+    while (iterator.nextNode() !== f);
+    iterator.previousNode();
+    d.remove();
+    const [, comment] = root.childNodes;
+    expect(iterator.referenceNode).toBe(comment);
+    expect(iterator.pointerBeforeReferenceNode).toBe(false);
+    expect(iterator.previousNode()).toBe(a.lastChild);
+
+    // after the reference, it moves to the previous node
+    root.append(c, d);
+    while (iterator.nextNode() !== e);
+    e.remove();
+    expect(iterator.referenceNode).toBe(d);
+    a.remove();
+    expect(iterator.referenceNode).toBe(d);
+    c.remove();
+    expect(iterator.referenceNode).toBe(d);
+    d.remove();
+    expect(iterator.referenceNode).toBe(comment);
+    expect(iterator.nextNode()).toBeNull();
+    comment.remove();
+    expect(iterator.referenceNode).toBe(root);
+
+    // removing the root, or unrelated nodes, changes nothing
+    root.remove();
+    expect(iterator.referenceNode).toBe(root);
+    doc.body.remove();
+    expect(iterator.referenceNode).toBe(root);
+  });
+
+  test("collected iterators", () => {
+    const { doc, root } = setup();
+    const iterator = doc.createNodeIterator(root);
+    iterator.nextNode();
+    const [a, c] = root.children;
+    expect(iterator.nextNode()).toBe(a);
+    // NOTE pretend every iterator was garbage collected
+    const deref = jest
+      .spyOn(WeakRef.prototype, "deref")
+      .mockReturnValue(undefined);
+    a.remove();
+    deref.mockRestore();
+    // so it's no longer updated
+    c.remove();
+    expect(iterator.referenceNode).toBe(a);
+  });
+
+  test("iterators of other documents", () => {
+    const { doc, root } = setup();
+    const other = parse("", { treeAdapter });
+    const iterators = (node: Node) =>
+      (node as unknown as { iterators: Set<unknown> }).iterators;
+
+    // iterators belong to the document of their root
+    const iterator = other.createNodeIterator(root, NodeFilter.SHOW_ELEMENT);
+    expect(iterators(doc).size).toBe(1);
+    expect(iterators(other).size).toBe(0);
+    const [, c] = root.children;
+    while (iterator.nextNode() !== c);
+
+    // and follow it when it's adopted
+    other.body.append(root);
+    expect(iterators(doc).size).toBe(0);
+    expect(iterators(other).size).toBe(1);
+    const comment = c.previousSibling;
+    c.remove();
+    expect(iterator.referenceNode).toBe(comment);
+  });
+
+  test("text extraction & link harvesting", () => {
+    const doc = parse(
+      `<p>Read <a href="/a">this</a> and <a>that</a>.</p><script>skip()</script><a href="/b">more</a>`,
+      { treeAdapter }
+    );
+    const texts = doc.createTreeWalker(
+      doc.body,
+      NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT,
+      (node) =>
+        node.nodeType === NodeType.Element
+          ? node.tagName === "SCRIPT"
+            ? NodeFilter.FILTER_REJECT
+            : NodeFilter.FILTER_SKIP
+          : NodeFilter.FILTER_ACCEPT
+    );
+    let text = "";
+    while (texts.nextNode()) {
+      text += (texts.currentNode as TextNode).value;
+    }
+    expect(text).toBe("Read this and that.more");
+
+    const links = doc.createNodeIterator(doc, NodeFilter.SHOW_ELEMENT, {
+      acceptNode: (node) =>
+        node.nodeType === NodeType.Element && node.hasAttribute("href")
+          ? NodeFilter.FILTER_ACCEPT
+          : NodeFilter.FILTER_SKIP,
+    });
+    const hrefs = [];
+    let link;
+    while ((link = links.nextNode())) {
+      if (link.nodeType === NodeType.Element) {
+        hrefs.push(link.getAttribute("href"));
+      }
+    }
+    expect(hrefs).toEqual(["/a", "/b"]);
+  });
+});
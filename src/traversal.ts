@@ -0,0 +1,400 @@
+/**
+ * tree walkers and node iterators
+ *
+ * @see {@link https://dom.spec.whatwg.org/#traversal}
+ */
+import {
+  ChildNode,
+  Node,
+  NodeFilter,
+  NodeIterator,
+  NodeType,
+  ParentNode,
+  TreeWalker,
+} from ".";
+
+/** the parent of node, documents and fragments are always roots */
+export function parentOf(node: Node): ParentNode | null {
+  return node.nodeType === NodeType.Document ||
+    node.nodeType === NodeType.DocumentFragment
+    ? null
+    : node.parentNode;
+}
+
+/** the first child of node if it can have any */
+function firstChildOf(node: Node): ChildNode | null {
+  return "firstChild" in node ? node.firstChild : null;
+}
+
+/** the last child of node if it can have any */
+function lastChildOf(node: Node): ChildNode | null {
+  return "lastChild" in node ? node.lastChild : null;
+}
+
+/** the next sibling of node, roots don't have any */
+function nextSiblingOf(node: Node): ChildNode | null {
+  return "nextSibling" in node ? node.nextSibling : null;
+}
+
+/** the previous sibling of node, roots don't have any */
+function previousSiblingOf(node: Node): ChildNode | null {
+  return "previousSibling" in node ? node.previousSibling : null;
+}
+
+/** the node after node in tree order within root */
+function following(node: Node, root: Node): Node | null {
+  const child = firstChildOf(node);
+  if (child) {
+    return child;
+  }
+  // NOTE iterators move off of removed nodes, so node is always within root
+  for (let pointer = node; pointer !== root; pointer = parentOf(pointer)!) {
+    const sibling = nextSiblingOf(pointer);
+    if (sibling) {
+      return sibling;
+    }
+  }
+  return null;
+}
+
+/** the last inclusive descendant of node in tree order */
+function lastDescendant(node: Node): Node {
+  let child;
+  while ((child = lastChildOf(node))) {
+    node = child;
+  }
+  return node;
+}
+
+/** the node before node in tree order within root */
+function preceding(node: Node, root: Node): Node | null {
+  if (node === root) {
+    return null;
+  }
+  const sibling = previousSiblingOf(node);
+  return sibling ? lastDescendant(sibling) : parentOf(node);
+}
+
+/** if other is an inclusive descendant of node */
+export function isInclusiveAncestor(node: Node, other: Node | null): boolean {
+  for (let pointer = other; pointer; pointer = parentOf(pointer)) {
+    if (pointer === node) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** what tree walkers and node iterators share */
+class Traversal {
+  private active = false;
+
+  constructor(
+    readonly root: Node,
+    readonly whatToShow: number,
+    readonly filter: NodeFilter | null
+  ) {}
+
+  /** the filter result for node, which is skipped if it isn't shown */
+  protected accept(node: Node): number {
+    if (this.active) {
+      throw new DOMException(
+        "a filter can't use the traversal it filters",
+        "InvalidStateError"
+      );
+    } else if (!((this.whatToShow >>> (node.nodeType - 1)) & 1)) {
+      return NodeFilter.FILTER_SKIP;
+    } else if (!this.filter) {
+      return NodeFilter.FILTER_ACCEPT;
+    }
+    this.active = true;
+    try {
+      const { filter } = this;
+      return Number(
+        typeof filter === "function" ? filter(node) : filter.acceptNode(node)
+      );
+    } finally {
+      this.active = false;
+    }
+  }
+}
+
+/** a tree walker */
+export class Walker extends Traversal implements TreeWalker {
+  currentNode: Node;
+
+  constructor(root: Node, whatToShow: number, filter: NodeFilter | null) {
+    super(root, whatToShow, filter);
+    this.currentNode = root;
+  }
+
+  parentNode(): Node | null {
+    let node: Node | null = this.currentNode;
+    while (node && node !== this.root) {
+      node = parentOf(node);
+      if (node && this.accept(node) === NodeFilter.FILTER_ACCEPT) {
+        this.currentNode = node;
+        return node;
+      }
+    }
+    return null;
+  }
+
+  /** the first or last accepted child */
+  private traverseChildren(first: boolean): Node | null {
+    let node: Node | null = first
+      ? firstChildOf(this.currentNode)
+      : lastChildOf(this.currentNode);
+    while (node) {
+      const result = this.accept(node);
+      if (result === NodeFilter.FILTER_ACCEPT) {
+        this.currentNode = node;
+        return node;
+      }
+      const child: Node | null =
+        result === NodeFilter.FILTER_SKIP
+          ? first
+            ? firstChildOf(node)
+            : lastChildOf(node)
+          : null;
+      if (child) {
+        node = child;
+        continue;
+      }
+      while (node) {
+        const sibling: Node | null = first
+          ? nextSiblingOf(node)
+          : previousSiblingOf(node);
+        if (sibling) {
+          node = sibling;
+          break;
+        }
+        const parent: Node | null = parentOf(node);
+        if (parent === this.root || parent === this.currentNode) {
+          return null;
+        }
+        node = parent;
+      }
+    }
+    return null;
+  }
+
+  firstChild(): Node | null {
+    return this.traverseChildren(true);
+  }
+
+  lastChild(): Node | null {
+    return this.traverseChildren(false);
+  }
+
+  /** the next or previous accepted sibling */
+  private traverseSiblings(next: boolean): Node | null {
+    let node: Node | null = this.currentNode;
+    if (node === this.root) {
+      return null;
+    }
+    for (;;) {
+      let sibling = next ? nextSiblingOf(node) : previousSiblingOf(node);
+      while (sibling) {
+        node = sibling;
+        const result = this.accept(node);
+        if (result === NodeFilter.FILTER_ACCEPT) {
+          this.currentNode = node;
+          return node;
+        }
+        sibling = next ? firstChildOf(node) : lastChildOf(node);
+        if (result === NodeFilter.FILTER_REJECT || !sibling) {
+          sibling = next ? nextSiblingOf(node) : previousSiblingOf(node);
+        }
+      }
+      node = parentOf(node);
+      if (
+        !node ||
+        node === this.root ||
+        this.accept(node) === NodeFilter.FILTER_ACCEPT
+      ) {
+        return null;
+      }
+    }
+  }
+
+  nextSibling(): Node | null {
+    return this.traverseSiblings(true);
+  }
+
+  previousSibling(): Node | null {
+    return this.traverseSiblings(false);
+  }
+
+  previousNode(): Node | null {
+    let node = this.currentNode;
+    while (node !== this.root) {
+      let sibling = previousSiblingOf(node);
+      while (sibling) {
+        node = sibling;
+        let result = this.accept(node);
+        let child;
+        while (
+          result !== NodeFilter.FILTER_REJECT &&
+          (child = lastChildOf(node))
+        ) {
+          node = child;
+          result = this.accept(node);
+        }
+        if (result === NodeFilter.FILTER_ACCEPT) {
+          this.currentNode = node;
+          return node;
+        }
+        sibling = previousSiblingOf(node);
+      }
+      const parent = parentOf(node);
+      if (!parent) {
+        return null;
+      }
+      node = parent;
+      if (this.accept(node) === NodeFilter.FILTER_ACCEPT) {
+        this.currentNode = node;
+        return node;
+      }
+    }
+    return null;
+  }
+
+  nextNode(): Node | null {
+    let node = this.currentNode;
+    let result: number = NodeFilter.FILTER_ACCEPT;
+    for (;;) {
+      let child;
+      while (
+        result !== NodeFilter.FILTER_REJECT &&
+        (child = firstChildOf(node))
+      ) {
+        node = child;
+        result = this.accept(node);
+        if (result === NodeFilter.FILTER_ACCEPT) {
+          this.currentNode = node;
+          return node;
+        }
+      }
+      let sibling = null;
+      for (
+        let pointer: Node | null = node;
+        pointer;
+        pointer = parentOf(pointer)
+      ) {
+        if (pointer === this.root) {
+          return null;
+        }
+        sibling = nextSiblingOf(pointer);
+        if (sibling) {
+          break;
+        }
+      }
+      // NOTE the current node may have been moved out of the root
+      if (!sibling) {
+        return null;
+      }
+      node = sibling;
+      result = this.accept(node);
+      if (result === NodeFilter.FILTER_ACCEPT) {
+        this.currentNode = node;
+        return node;
+      }
+    }
+  }
+}
+
+/** a node iterator */
+export class Iter extends Traversal implements NodeIterator {
+  referenceNode: Node;
+  pointerBeforeReferenceNode = true;
+
+  constructor(root: Node, whatToShow: number, filter: NodeFilter | null) {
+    super(root, whatToShow, filter);
+    this.referenceNode = root;
+  }
+
+  /** the next or previous accepted node */
+  private traverse(next: boolean): Node | null {
+    let node: Node | null = this.referenceNode;
+    let before = this.pointerBeforeReferenceNode;
+    for (;;) {
+      if (next && !before) {
+        node = following(node, this.root);
+      } else if (!next && before) {
+        node = preceding(node, this.root);
+      }
+      if (!node) {
+        return null;
+      }
+      before = !next;
+      if (this.accept(node) === NodeFilter.FILTER_ACCEPT) {
+        break;
+      }
+    }
+    this.referenceNode = node;
+    this.pointerBeforeReferenceNode = before;
+    return node;
+  }
+
+  nextNode(): Node | null {
+    return this.traverse(true);
+  }
+
+  previousNode(): Node | null {
+    return this.traverse(false);
+  }
+
+  detach(): void {
+    // NOTE like the browser, this does nothing
+  }
+
+  /** move off of node before it's removed */
+  removing(node: ChildNode): void {
+    const { root, referenceNode } = this;
+    if (
+      node === root ||
+      !isInclusiveAncestor(root, node) ||
+      !isInclusiveAncestor(node, referenceNode)
+    ) {
+      return;
+    }
+    if (this.pointerBeforeReferenceNode) {
+      let next: Node | null = null;
+      for (
+        let pointer: Node | null = node;
+        pointer;
+        pointer = parentOf(pointer)
+      ) {
+        if (pointer === root) {
+          break;
+        }
+        next = nextSiblingOf(pointer);
+        if (next) {
+          break;
+        }
+      }
+      if (next) {
+        this.referenceNode = next;
+        return;
+      }
+      this.pointerBeforeReferenceNode = false;
+    }
+    const sibling = node.previousSibling;
+    this.referenceNode = sibling
+      ? lastDescendant(sibling)
+      : (parentOf(node) as Node);
+  }
+}
+
+/** update the node iterators of node's document that it's about to be removed */
+export function removing(node: ChildNode, iterators: Set<WeakRef<Iter>>): void {
+  for (const ref of iterators) {
+    const iterator = ref.deref();
+    if (iterator) {
+      iterator.removing(node);
+    } else {
+      iterators.delete(ref);
+    }
+  }
+}